@@ -11,8 +11,24 @@
  *   lsp-hover <file> <line> <char>    Get type information at position
  *   lsp-find <query> [file]            Search for symbols
  *   lsp-refs <file> <line> <char>     Find all references
+ *   lsp-definition <file> <line> <char>       Go to definition
+ *   lsp-type-definition <file> <line> <char>  Go to type definition
+ *   lsp-impl <file> <line> <char>      Find implementations
+ *   lsp-calls <file> <line> <char>     Show incoming/outgoing call hierarchy
+ *   lsp-types-tree <file> <line> <char>  Show supertypes and subtypes
+ *   lsp-rename <file> <line> <char> <name>  Preview or apply a symbol rename
+ *   lsp-code-actions <file> <line> <char>  List or apply quick fixes and refactorings
+ *   lsp-complete <file> <line> <char>  List ranked completion items
+ *   lsp-signature <file> <line> <char>  Show call signatures and the active parameter
  *   lsp-symbols <file>                 List all symbols in file
- *   lsp-analyze <file>                 Batch analysis
+ *   lsp-analyze <file|glob...>         Batch analysis of files
+ *   lsp-batch < requests.jsonl         Run JSONL queries from stdin in one session
+ *   lsp-diagnostics [file|glob...]     Report type errors and warnings
+ *   api-report <entry.ts>              Report or diff the public API of an entry point
+ *   find-unused [file|glob...]         Report unused exports and declarations
+ *   deps-graph [entry...]              Build the import graph with cycles and dependents
+ *   repo-map [file|glob...]            Ranked map of exported symbols within a token budget
+ *   daemon <start|stop|status>         Manage persistent LSP daemon
  *   validate-skill <path>              Validate AgentSkills spec
  *   scaffold-rules [options]           Generate development rules
  *
@@ -23,11 +39,26 @@
  *   bunx @plaited/development-skills scaffold-rules --agent=claude --format=json
  */
 
+import { apiReport } from '../src/api-report.ts'
+import { depsGraph } from '../src/deps-graph.ts'
+import { findUnused } from '../src/find-unused.ts'
 import { lspAnalyze } from '../src/lsp-analyze.ts'
+import { lspBatch } from '../src/lsp-batch.ts'
+import { lspCalls } from '../src/lsp-calls.ts'
+import { lspCodeActions } from '../src/lsp-code-actions.ts'
+import { lspComplete } from '../src/lsp-complete.ts'
+import { lspDaemon } from '../src/lsp-daemon.ts'
+import { lspDefinition, lspTypeDefinition } from '../src/lsp-definition.ts'
+import { lspDiagnostics } from '../src/lsp-diagnostics.ts'
 import { lspFind } from '../src/lsp-find.ts'
 import { lspHover } from '../src/lsp-hover.ts'
+import { lspImplementations } from '../src/lsp-implementations.ts'
 import { lspRefs } from '../src/lsp-references.ts'
+import { lspRename } from '../src/lsp-rename.ts'
+import { lspSignature } from '../src/lsp-signature.ts'
 import { lspSymbols } from '../src/lsp-symbols.ts'
+import { lspTypesTree } from '../src/lsp-types-tree.ts'
+import { repoMap } from '../src/repo-map.ts'
 import { scaffoldRules } from '../src/scaffold-rules.ts'
 import { validateSkill } from '../src/validate-skill.ts'
 
@@ -52,17 +83,49 @@ Commands:
   lsp-hover <file> <line> <char>    Get type information at position
   lsp-find <query> [file]            Search for symbols
   lsp-refs <file> <line> <char>     Find all references
+  lsp-definition <file> <line> <char>       Go to definition
+  lsp-type-definition <file> <line> <char>  Go to type definition
+  lsp-impl <file> <line> <char>      Find implementations
+  lsp-calls <file> <line> <char>     Show incoming/outgoing call hierarchy
+  lsp-types-tree <file> <line> <char>  Show supertypes and subtypes
+  lsp-rename <file> <line> <char> <name>  Preview or apply a symbol rename
+  lsp-code-actions <file> <line> <char>  List or apply quick fixes and refactorings
+  lsp-complete <file> <line> <char>  List ranked completion items
+  lsp-signature <file> <line> <char>  Show call signatures and the active parameter
   lsp-symbols <file>                 List all symbols in file
-  lsp-analyze <file>                 Batch analysis
+  lsp-analyze <file|glob...>         Batch analysis of files
+  lsp-batch < requests.jsonl         Run JSONL queries from stdin in one session
+  lsp-diagnostics [file|glob...]     Report type errors and warnings
+  api-report <entry.ts>              Report or diff the public API of an entry point
+  find-unused [file|glob...]         Report unused exports and declarations
+  deps-graph [entry...]              Build the import graph with cycles and dependents
+  repo-map [file|glob...]            Ranked map of exported symbols within a token budget
+  daemon <start|stop|status>         Manage persistent LSP daemon
   validate-skill <path>              Validate AgentSkills spec
   scaffold-rules [options]           Generate development rules
 
 Examples:
   bunx @plaited/development-skills lsp-hover src/index.ts 10 5
+  bunx @plaited/development-skills lsp-refs src/index.ts:11:6
   bunx @plaited/development-skills lsp-find parseConfig
   bunx @plaited/development-skills lsp-refs src/types.ts 15 8
-  bunx @plaited/development-skills lsp-symbols src/app.ts
+  bunx @plaited/development-skills lsp-definition src/app.ts 12 20
+  bunx @plaited/development-skills lsp-impl src/types.ts 4 17
+  bunx @plaited/development-skills lsp-calls src/config.ts 8 13 --direction=in --depth=2
+  bunx @plaited/development-skills lsp-types-tree src/config.ts 17 13 --format=text
+  bunx @plaited/development-skills lsp-rename src/config.ts 8 13 loadConfig --apply
+  bunx @plaited/development-skills lsp-code-actions src/app.ts 0:0 --kind=source.addMissingImports --apply
+  bunx @plaited/development-skills lsp-complete src/app.ts 12 10 --limit=10
+  bunx @plaited/development-skills lsp-signature src/app.ts 20 18
+  bunx @plaited/development-skills lsp-symbols src/app.ts --format=text
   bunx @plaited/development-skills lsp-analyze src/app.ts
+  bunx @plaited/development-skills lsp-batch < requests.jsonl
+  bunx @plaited/development-skills lsp-diagnostics 'src/**/*.ts'
+  bunx @plaited/development-skills api-report src/index.ts --diff api-report.json
+  bunx @plaited/development-skills find-unused --entry src/index.ts --format=text
+  bunx @plaited/development-skills deps-graph --dependents src/config.ts --format=text
+  bunx @plaited/development-skills repo-map --max-tokens 2000
+  bunx @plaited/development-skills daemon start
   bunx @plaited/development-skills validate-skill .claude/skills/my-skill
   bunx @plaited/development-skills scaffold-rules --agent=claude --format=json
 
@@ -85,12 +148,61 @@ try {
     case 'lsp-references':
       await lspRefs(args)
       break
+    case 'lsp-definition':
+      await lspDefinition(args)
+      break
+    case 'lsp-type-definition':
+      await lspTypeDefinition(args)
+      break
+    case 'lsp-impl':
+    case 'lsp-implementations':
+      await lspImplementations(args)
+      break
+    case 'lsp-calls':
+      await lspCalls(args)
+      break
+    case 'lsp-types-tree':
+      await lspTypesTree(args)
+      break
+    case 'lsp-rename':
+      await lspRename(args)
+      break
+    case 'lsp-code-actions':
+      await lspCodeActions(args)
+      break
+    case 'lsp-complete':
+      await lspComplete(args)
+      break
+    case 'lsp-signature':
+      await lspSignature(args)
+      break
     case 'lsp-symbols':
       await lspSymbols(args)
       break
     case 'lsp-analyze':
       await lspAnalyze(args)
       break
+    case 'lsp-batch':
+      await lspBatch(args)
+      break
+    case 'lsp-diagnostics':
+      await lspDiagnostics(args)
+      break
+    case 'api-report':
+      await apiReport(args)
+      break
+    case 'find-unused':
+      await findUnused(args)
+      break
+    case 'deps-graph':
+      await depsGraph(args)
+      break
+    case 'repo-map':
+      await repoMap(args)
+      break
+    case 'daemon':
+      await lspDaemon(args)
+      break
     case 'validate-skill':
       await validateSkill(args)
       break
@@ -0,0 +1,293 @@
+#!/usr/bin/env bun
+/**
+ * Report the public API of a package entry point, or diff it against a baseline
+ *
+ * Walks the exports of the entry point, following re-exports, and describes every exported
+ * symbol with its kind and hover signature, plus the public members of classes, interfaces
+ * and enums. The report is sorted by name so it can be committed and compared.
+ *
+ * Usage: bun api-report.ts <entry.ts> [options]
+ *
+ * Options:
+ *   --diff <baseline>   Compare with a JSON report saved earlier; exits 1 when exports or members were removed
+ *   --format <format>   json (default), jsonl or text
+ *   --max-results <n>, --max-chars <n>  Truncate the output and summarize the rest
+ */
+
+import { parseArgs } from 'node:util'
+import { createLspClient } from './lsp-daemon.ts'
+import { getLanguageId, toWorkspacePath } from './lsp-utils.ts'
+import { addExportSignatures, getModuleExports } from './module-exports.ts'
+import { OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+
+type ApiMember = { name: string; signature?: string }
+
+type ApiExport = {
+  name: string
+  kind: string
+  typeOnly: boolean
+  signature?: string
+  members?: ApiMember[]
+}
+
+/**
+ * Stable description of an entry point's exports, sorted by name
+ */
+export type ApiReport = {
+  entry: string
+  exports: ApiExport[]
+}
+
+type ApiChange = {
+  kind: 'added' | 'removed' | 'changed'
+  /** Export name, or `Export.member` for members */
+  name: string
+  before?: string
+  after?: string
+}
+
+type ApiDiff = {
+  entry: string
+  baseline: string
+  summary: Record<ApiChange['kind'], number>
+  changes: ApiChange[]
+}
+
+const byName = <T extends { name: string }>(a: T, b: T): number => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)
+
+/**
+ * Describe an export for comparison: `signature [Kind]`, marking values exported as types only
+ */
+const describeExport = ({ kind, typeOnly, signature }: ApiExport): string => {
+  const typeOnlyValue = typeOnly && kind !== 'Interface' && kind !== 'TypeAlias'
+  return `${signature ?? ''} [${kind}${typeOnlyValue ? ', type-only' : ''}]`.trim()
+}
+
+/**
+ * Flatten a report into descriptions keyed by export name and `Export.member`
+ */
+const flattenReport = (report: ApiReport): Map<string, string> => {
+  const entries = new Map<string, string>()
+  for (const entry of report.exports) {
+    entries.set(entry.name, describeExport(entry))
+    for (const member of entry.members ?? []) {
+      entries.set(`${entry.name}.${member.name}`, member.signature ?? '')
+    }
+  }
+  return entries
+}
+
+/**
+ * Classify the differences between two reports as added, removed or changed-signature
+ *
+ * @remarks
+ * Members of added or removed exports are not listed separately.
+ */
+export const diffReports = (baseline: ApiReport, current: ApiReport): ApiChange[] => {
+  const before = flattenReport(baseline)
+  const after = flattenReport(current)
+  const isMemberOf = (name: string, report: Map<string, string>) => {
+    const dot = name.indexOf('.')
+    return dot !== -1 && !report.has(name.slice(0, dot))
+  }
+
+  const changes: ApiChange[] = []
+  for (const [name, description] of before) {
+    const next = after.get(name)
+    if (next === undefined) {
+      if (!isMemberOf(name, after)) changes.push({ kind: 'removed', name, before: description })
+    } else if (next !== description) {
+      changes.push({ kind: 'changed', name, before: description, after: next })
+    }
+  }
+  for (const [name, description] of after) {
+    if (!before.has(name) && !isMemberOf(name, before)) changes.push({ kind: 'added', name, after: description })
+  }
+  return changes.sort(byName)
+}
+
+const indent = (text: string, prefix: string): string =>
+  text
+    .split('\n')
+    .map((line) => `${prefix}${line}`)
+    .join('\n')
+
+/**
+ * Render one `name [Kind]` line per export, followed by its signature and members
+ */
+const formatReport = (report: ApiReport): string => {
+  const sections = report.exports.map((entry) => {
+    const lines = [`${entry.name} [${entry.kind}]${entry.typeOnly ? ' (type)' : ''}`]
+    if (entry.signature) lines.push(indent(entry.signature, '  '))
+    for (const member of entry.members ?? []) {
+      lines.push(indent(member.signature ?? member.name, '  . '))
+    }
+    return lines.join('\n')
+  })
+  return [`API of ${report.entry}: ${report.exports.length} export(s)`, ...sections].join('\n\n')
+}
+
+/**
+ * Render changes as `+ added`, `- removed` and `~ changed` entries with their signatures
+ */
+const formatDiff = (diff: ApiDiff): string => {
+  const marks = { added: '+', removed: '-', changed: '~' }
+  const lines = diff.changes.map(({ kind, name, before, after }) => {
+    const details = [before !== undefined && `- ${before}`, after !== undefined && `+ ${after}`].filter(
+      (detail): detail is string => Boolean(detail),
+    )
+    return [`${marks[kind]} ${name}`, ...details.map((detail) => indent(detail, '    '))].join('\n')
+  })
+  const { added, removed, changed } = diff.summary
+  lines.push(`${added} added, ${removed} removed, ${changed} changed since ${diff.baseline}`)
+  return lines.join('\n')
+}
+
+/**
+ * Check that parsed JSON has the shape of a report
+ */
+const isApiReport = (value: unknown): value is ApiReport =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as ApiReport).entry === 'string' &&
+  Array.isArray((value as ApiReport).exports)
+
+/**
+ * Report the public API of an entry point
+ *
+ * @param args - Command line arguments [entry]
+ */
+export const apiReport = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      diff: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      ...OUTPUT_OPTIONS,
+    },
+    allowPositionals: true,
+  })
+
+  const [entryPath] = positionals
+
+  if (values.help || !entryPath) {
+    console.log(`
+API Report - Describe the public API of an entry point
+
+Usage: api-report <entry.ts> [options]
+
+Options:
+  --diff <baseline>   Compare with a JSON report saved earlier; exits 1 when exports or members were removed
+${OUTPUT_USAGE.join('\n')}
+  --help, -h          Show this help
+
+Examples:
+  api-report src/index.ts --format=text
+  api-report src/index.ts > api-report.json
+  api-report src/index.ts --diff api-report.json --format=text
+`)
+    process.exit(values.help ? 0 : 1)
+  }
+
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  let baseline: ApiReport | undefined
+  if (values.diff) {
+    const file = Bun.file(values.diff)
+    if (!(await file.exists())) {
+      console.error(`Error: Baseline not found: ${values.diff}`)
+      process.exit(1)
+    }
+    const parsed = await file.json().catch(() => undefined)
+    if (!isApiReport(parsed)) {
+      console.error(`Error: ${values.diff} is not a JSON report from api-report`)
+      process.exit(1)
+    }
+    baseline = parsed
+  }
+
+  const absolutePath = await resolveFilePath(entryPath)
+  const uri = `file://${absolutePath}`
+  const rootUri = `file://${process.cwd()}`
+
+  const file = Bun.file(absolutePath)
+  if (!(await file.exists())) {
+    console.error(`Error: File not found: ${absolutePath}`)
+    process.exit(1)
+  }
+
+  const client = await createLspClient({ rootUri })
+
+  try {
+    await client.start()
+
+    client.openDocument(uri, getLanguageId(absolutePath), 1, await file.text())
+    const exports = await addExportSignatures(client, getModuleExports(absolutePath, { members: true }), [uri])
+    client.closeDocument(uri)
+    await client.stop()
+
+    const report: ApiReport = {
+      entry: toWorkspacePath(absolutePath),
+      exports: exports
+        .map(({ name, kind, typeOnly, signature, members }) => ({
+          name,
+          kind,
+          typeOnly,
+          ...(signature && { signature }),
+          ...(members && {
+            members: members.map((member) => ({ name: member.name, signature: member.signature })).sort(byName),
+          }),
+        }))
+        .sort(byName),
+    }
+
+    if (!baseline) {
+      await printResult(
+        report,
+        { ...outputOptions, base: 0 },
+        {
+          text: formatReport,
+          records: (output) => output.exports,
+          withRecords: (output, records) => ({ ...output, exports: records as ApiExport[] }),
+          hint: 'Report a narrower entry point',
+        },
+      )
+      return
+    }
+
+    const changes = diffReports(baseline, report)
+    const summary = { added: 0, removed: 0, changed: 0 }
+    for (const { kind } of changes) {
+      summary[kind] += 1
+    }
+    const diff: ApiDiff = { entry: report.entry, baseline: values.diff!, summary, changes }
+
+    await printResult(
+      diff,
+      { ...outputOptions, base: 0 },
+      {
+        text: formatDiff,
+        records: (output) => output.changes,
+        withRecords: (output, records) => ({ ...output, changes: records as ApiChange[] }),
+      },
+    )
+
+    if (summary.removed > 0) {
+      process.exit(1)
+    }
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await apiReport(Bun.argv.slice(2))
+}
@@ -0,0 +1,461 @@
+#!/usr/bin/env bun
+/**
+ * Build the module import graph of the workspace, with cycles, orphans and dependents
+ *
+ * Walks the imports of the entry files and everything they import. Each import specifier
+ * is resolved by the language server's definition lookup on the specifier, so path
+ * aliases, extension rewriting and package exports resolve as they do for the editor;
+ * specifiers the server cannot resolve fall back to {@link resolveFilePath}. Imports of
+ * packages in `node_modules` are listed but not followed.
+ *
+ * Usage: bun deps-graph.ts [entry...] [options]
+ *
+ * Options:
+ *   --dependents <file>  Also list the files that import the file, directly or transitively
+ *   --format <format>    json (default), jsonl (one module per line), text, dot or mermaid
+ *   --max-results <n>, --max-chars <n>  Truncate json, jsonl and text output
+ */
+
+import { dirname, join } from 'node:path'
+import { parseArgs } from 'node:util'
+import ts from 'typescript'
+import type { LspClient } from './lsp-client.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  expandFilePatterns,
+  getLanguageId,
+  isDeclarationFile,
+  normalizeLocations,
+  offsetToPosition,
+  type Position,
+  SOURCE_FILE_PATTERN,
+  toWorkspacePath,
+  uriToPath,
+} from './lsp-utils.ts'
+import { OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+
+/**
+ * Module specifier of an import, export, `import()` or `require()` in a file
+ */
+export type ModuleSpecifier = {
+  specifier: string
+  /** Position inside the quotes, where definition lookups resolve the module */
+  position: Position
+}
+
+/**
+ * One file of the graph and the modules it imports
+ */
+export type DependencyModule = {
+  file: string
+  /** Workspace files it imports */
+  imports: string[]
+  /** Packages it imports */
+  external?: string[]
+  /** Specifiers that resolve to no file */
+  unresolved?: string[]
+}
+
+type Dependents = {
+  file: string
+  /** Files importing the file */
+  direct: string[]
+  /** Files importing the file directly or through other files */
+  transitive: string[]
+}
+
+type DependencyGraph = {
+  files: number
+  modules: DependencyModule[]
+  /** Groups of files that import each other, directly or through each other */
+  cycles: string[][]
+  /** Files nothing imports, or with entry points, files the entries do not reach */
+  orphans: string[]
+  dependents?: Dependents
+}
+
+type GraphFormat = 'dot' | 'mermaid'
+
+const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid']
+
+/** Files whose imports are followed */
+const isSourceFile = (path: string): boolean => /\.[mc]?[jt]sx?$/.test(path) && !isDeclarationFile(path)
+
+const isRelativeSpecifier = (specifier: string): boolean => specifier.startsWith('.') || specifier.startsWith('/')
+
+/**
+ * Package name of a bare specifier: `@scope/name` or `name`, without the subpath
+ */
+export const getPackageName = (specifier: string): string => {
+  const parts = specifier.split('/')
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0]!
+}
+
+/**
+ * List the module specifiers of a file
+ *
+ * @remarks
+ * Covers `import` and `export ... from` statements, `import x = require()`, and calls of
+ * `import()` and `require()` with a string literal anywhere in the file.
+ */
+export const getModuleSpecifiers = (sourceFile: ts.SourceFile): ModuleSpecifier[] => {
+  const specifiers: ModuleSpecifier[] = []
+  const add = (node: ts.Node | undefined) => {
+    if (!node || !ts.isStringLiteralLike(node)) return
+    specifiers.push({
+      specifier: node.text,
+      position: offsetToPosition(sourceFile.text, node.getStart(sourceFile) + 1),
+    })
+  }
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+      add(node.moduleSpecifier)
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      add(node.moduleReference.expression)
+    } else if (ts.isCallExpression(node) && node.arguments.length === 1) {
+      const isImport = node.expression.kind === ts.SyntaxKind.ImportKeyword
+      const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require'
+      if (isImport || isRequire) add(node.arguments[0])
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+  return specifiers
+}
+
+/**
+ * Find the groups of files that import each other
+ *
+ * @remarks
+ * Strongly connected components of the graph (Tarjan's algorithm) with more than one
+ * file, plus files importing themselves. Files within a group and the groups are sorted.
+ */
+export const findCycles = (modules: DependencyModule[]): string[][] => {
+  const edges = new Map(modules.map(({ file, imports }) => [file, imports]))
+  const indexes = new Map<string, number>()
+  const lowLinks = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const cycles: string[][] = []
+
+  const connect = (file: string) => {
+    indexes.set(file, indexes.size)
+    lowLinks.set(file, indexes.get(file)!)
+    stack.push(file)
+    onStack.add(file)
+
+    for (const target of edges.get(file) ?? []) {
+      if (!indexes.has(target)) {
+        connect(target)
+        lowLinks.set(file, Math.min(lowLinks.get(file)!, lowLinks.get(target)!))
+      } else if (onStack.has(target)) {
+        lowLinks.set(file, Math.min(lowLinks.get(file)!, indexes.get(target)!))
+      }
+    }
+
+    if (lowLinks.get(file) !== indexes.get(file)) return
+    const component: string[] = []
+    let member: string
+    do {
+      member = stack.pop()!
+      onStack.delete(member)
+      component.push(member)
+    } while (member !== file)
+    if (component.length > 1 || edges.get(file)?.includes(file)) cycles.push(component.sort())
+  }
+
+  for (const { file } of modules) {
+    if (!indexes.has(file)) connect(file)
+  }
+  return cycles.sort((a, b) => a[0]!.localeCompare(b[0]!))
+}
+
+/**
+ * Find the files that import a file, directly or through other files
+ */
+export const findDependents = (modules: DependencyModule[], file: string): Dependents => {
+  const importers = new Map<string, string[]>()
+  for (const module of modules) {
+    for (const target of module.imports) {
+      importers.set(target, [...(importers.get(target) ?? []), module.file])
+    }
+  }
+
+  const seen = new Set<string>()
+  const queue = [file]
+  while (queue.length) {
+    for (const importer of importers.get(queue.shift()!) ?? []) {
+      if (importer === file || seen.has(importer)) continue
+      seen.add(importer)
+      queue.push(importer)
+    }
+  }
+
+  const direct = (importers.get(file) ?? []).filter((importer) => importer !== file)
+  return { file, direct: [...new Set(direct)].sort(), transitive: [...seen].sort() }
+}
+
+/**
+ * Modules to draw: all of them, or with `--dependents` only the file and its dependents
+ */
+const getDrawnModules = (graph: DependencyGraph): DependencyModule[] => {
+  if (!graph.dependents) return graph.modules
+  const drawn = new Set([graph.dependents.file, ...graph.dependents.transitive])
+  return graph.modules
+    .filter(({ file }) => drawn.has(file))
+    .map((module) => ({ ...module, imports: module.imports.filter((target) => drawn.has(target)) }))
+}
+
+/**
+ * Check whether an import edge lies on a cycle
+ */
+const isCycleEdge = (cycles: string[][], from: string, to: string): boolean =>
+  cycles.some((cycle) => cycle.includes(from) && cycle.includes(to))
+
+/**
+ * Render the graph in Graphviz DOT, with import edges on cycles in red
+ */
+export const formatDot = (graph: DependencyGraph): string => {
+  const lines = ['digraph dependencies {', '  rankdir=LR', '  node [shape=box]']
+  for (const { file, imports } of getDrawnModules(graph)) {
+    if (!imports.length) lines.push(`  ${JSON.stringify(file)}`)
+    for (const target of imports) {
+      const style = isCycleEdge(graph.cycles, file, target) ? ' [color=red]' : ''
+      lines.push(`  ${JSON.stringify(file)} -> ${JSON.stringify(target)}${style}`)
+    }
+  }
+  lines.push('}')
+  return lines.join('\n')
+}
+
+/**
+ * Render the graph as a Mermaid flowchart, with import edges on cycles in red
+ */
+export const formatMermaid = (graph: DependencyGraph): string => {
+  const modules = getDrawnModules(graph)
+  const ids = new Map(modules.map(({ file }, index) => [file, `n${index}`]))
+  const lines = ['graph LR', ...modules.map(({ file }) => `  ${ids.get(file)}["${file}"]`)]
+
+  const cycleEdges: number[] = []
+  let edge = 0
+  for (const { file, imports } of modules) {
+    for (const target of imports) {
+      lines.push(`  ${ids.get(file)} --> ${ids.get(target)}`)
+      if (isCycleEdge(graph.cycles, file, target)) cycleEdges.push(edge)
+      edge += 1
+    }
+  }
+  if (cycleEdges.length) lines.push(`  linkStyle ${cycleEdges.join(',')} stroke:red`)
+  return lines.join('\n')
+}
+
+/**
+ * Render each module with its imports, then cycles, orphans and dependents
+ */
+const formatGraph = (graph: DependencyGraph): string => {
+  const lines: string[] = []
+  for (const { file, imports, external = [], unresolved = [] } of graph.modules) {
+    lines.push(file)
+    lines.push(...imports.map((target) => `  -> ${target}`))
+    lines.push(...external.map((name) => `  -> ${name} (package)`))
+    lines.push(...unresolved.map((specifier) => `  ?? ${specifier} (unresolved)`))
+  }
+
+  if (graph.cycles.length) {
+    lines.push('', 'Cycles:', ...graph.cycles.map((cycle) => `  ${cycle.join(' <-> ')}`))
+  }
+  if (graph.orphans.length) {
+    lines.push('', 'Orphans:', ...graph.orphans.map((file) => `  ${file}`))
+  }
+  if (graph.dependents) {
+    const { file, direct, transitive } = graph.dependents
+    lines.push('', `Dependents of ${file}: ${direct.length} direct, ${transitive.length} in total`)
+    lines.push(...transitive.map((dependent) => `  ${dependent}${direct.includes(dependent) ? '' : ' (transitive)'}`))
+  }
+
+  const importCount = graph.modules.reduce((total, { imports }) => total + imports.length, 0)
+  lines.push(
+    '',
+    `${graph.files} file(s), ${importCount} import(s), ${graph.cycles.length} cycle(s), ${graph.orphans.length} orphan(s)`,
+  )
+  return lines.join('\n')
+}
+
+/**
+ * Resolve the specifiers of one open file to workspace files, packages or nothing
+ */
+const resolveSpecifiers = async (
+  client: LspClient,
+  path: string,
+  specifiers: ModuleSpecifier[],
+): Promise<{ files: string[]; external: string[]; unresolved: string[] }> => {
+  const files = new Set<string>()
+  const external = new Set<string>()
+  const unresolved = new Set<string>()
+
+  for (const { specifier, position } of specifiers) {
+    const [definition] = normalizeLocations(
+      await client.definition(`file://${path}`, position.line, position.character),
+    )
+    // The server points unresolved relative specifiers at the file they name, which may not exist
+    const candidate = definition?.uri.startsWith('file://')
+      ? uriToPath(definition.uri)
+      : isRelativeSpecifier(specifier)
+        ? await resolveFilePath(specifier.startsWith('/') ? specifier : join(dirname(path), specifier))
+        : undefined
+    const target = candidate && (await Bun.file(candidate).exists()) ? candidate : undefined
+
+    if (target?.includes('/node_modules/') || (!target && !isRelativeSpecifier(specifier))) {
+      external.add(getPackageName(specifier))
+    } else if (target) {
+      files.add(target)
+    } else {
+      unresolved.add(specifier)
+    }
+  }
+  return { files: [...files], external: [...external], unresolved: [...unresolved] }
+}
+
+/**
+ * Build the import graph of the workspace
+ *
+ * @param args - Command line arguments [entry...]
+ */
+export const depsGraph = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      dependents: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      ...OUTPUT_OPTIONS,
+    },
+    allowPositionals: true,
+  })
+
+  if (values.help) {
+    console.log(`
+Deps Graph - Build the module import graph with cycles, orphans and dependents
+
+Usage: deps-graph [entry...] [options]
+
+Follows the imports of the entry files and globs, or of every source file in the workspace
+when none are given. Orphans are files nothing imports, or with entries, files the entries
+do not reach.
+
+Options:
+  --dependents <file>  Also list the files that import the file, directly or transitively;
+                       dot and mermaid then draw only those files
+${OUTPUT_USAGE.join('\n')}
+  --format dot / mermaid: Draw the graph as Graphviz DOT or a Mermaid flowchart
+  --help, -h           Show this help
+
+Examples:
+  deps-graph --format=text
+  deps-graph src/index.ts --format=mermaid
+  deps-graph --dependents src/lsp-utils.ts --format=text
+`)
+    process.exit(0)
+  }
+
+  const graphFormat = GRAPH_FORMATS.find((format) => format === values.format)
+  const outputOptions = parseOutputOptions(graphFormat ? { ...values, format: 'json' } : values)
+  if ('error' in outputOptions) {
+    console.error(
+      `Error: ${outputOptions.error.startsWith('--format') ? '--format must be "json", "jsonl", "text", "dot" or "mermaid"' : outputOptions.error}`,
+    )
+    process.exit(1)
+  }
+
+  const workspaceFiles = (await expandFilePatterns([SOURCE_FILE_PATTERN])).filter((path) => !isDeclarationFile(path))
+  const entries = positionals.length ? await expandFilePatterns(positionals) : workspaceFiles
+  if (entries.length === 0) {
+    console.error('Error: No files matched')
+    process.exit(1)
+  }
+  for (const path of entries) {
+    if (!(await Bun.file(path).exists())) {
+      console.error(`Error: File not found: ${path}`)
+      process.exit(1)
+    }
+  }
+
+  const rootUri = `file://${process.cwd()}`
+  const client = await createLspClient({ rootUri })
+
+  try {
+    await client.start()
+
+    const imports = new Map<string, DependencyModule>()
+    const queue = [...entries]
+    const queued = new Set(queue)
+    while (queue.length) {
+      const path = queue.shift()!
+      const module: DependencyModule = { file: toWorkspacePath(path), imports: [] }
+      imports.set(path, module)
+      if (!isSourceFile(path)) continue
+
+      const text = await Bun.file(path).text()
+      const uri = `file://${path}`
+      client.openDocument(uri, getLanguageId(path), 1, text)
+      await client.waitForProject(uri)
+      const sourceFile = ts.createSourceFile(path, text, ts.ScriptTarget.Latest, true)
+      const resolved = await resolveSpecifiers(client, path, getModuleSpecifiers(sourceFile))
+      client.closeDocument(uri)
+
+      module.imports = resolved.files.map((target) => toWorkspacePath(target)).sort()
+      if (resolved.external.length) module.external = resolved.external.sort()
+      if (resolved.unresolved.length) module.unresolved = resolved.unresolved.sort()
+      for (const target of resolved.files) {
+        if (queued.has(target)) continue
+        queued.add(target)
+        queue.push(target)
+      }
+    }
+
+    await client.stop()
+
+    const modules = [...imports.values()].sort((a, b) => a.file.localeCompare(b.file))
+    const imported = new Set(modules.flatMap((module) => module.imports.filter((target) => target !== module.file)))
+    const orphans = positionals.length
+      ? workspaceFiles.filter((path) => !imports.has(path)).map((path) => toWorkspacePath(path))
+      : modules.map(({ file }) => file).filter((file) => !imported.has(file))
+
+    const graph: DependencyGraph = { files: modules.length, modules, cycles: findCycles(modules), orphans }
+
+    if (values.dependents) {
+      const file = toWorkspacePath(await resolveFilePath(values.dependents))
+      if (!modules.some((module) => module.file === file)) {
+        console.error(`Error: ${file} is not in the graph`)
+        process.exit(1)
+      }
+      graph.dependents = findDependents(modules, file)
+    }
+
+    if (graphFormat) {
+      console.log(graphFormat === 'dot' ? formatDot(graph) : formatMermaid(graph))
+      return
+    }
+
+    await printResult(
+      graph,
+      { ...outputOptions, base: 0 },
+      {
+        text: formatGraph,
+        records: (output) => output.modules,
+        withRecords: (output, records) => ({ ...output, modules: records as DependencyModule[] }),
+        hint: 'Start from fewer entry files, or draw the graph with --format=dot',
+      },
+    )
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await depsGraph(Bun.argv.slice(2))
+}
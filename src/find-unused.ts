@@ -0,0 +1,381 @@
+#!/usr/bin/env bun
+/**
+ * Find exports nothing else uses and module-level declarations nothing references
+ *
+ * Lists the exports declared in each file with the TypeScript compiler and asks the language
+ * server for their references. An export is unused when no other file uses it: imports and
+ * `export ... from` re-exports alone do not count, so an export that is only re-exported by
+ * an index file is reported unless that index is an entry point. Non-exported declarations
+ * at the top level of a module are unused when they have no references at all.
+ *
+ * Usage: bun find-unused.ts [file|glob...] [options]
+ *
+ * Options:
+ *   --exclude <glob>    Skip matching files; references from them still count (repeatable)
+ *   --entry <file|glob> Treat the exports of a package entry point as used (repeatable)
+ *   --format <format>   json (default), jsonl (one symbol per line) or text
+ *   --max-results <n>, --max-chars <n>  Truncate the output and summarize the rest per file
+ *   --one-based         Print 1-based positions
+ */
+
+import { parseArgs } from 'node:util'
+import { Glob } from 'bun'
+import ts from 'typescript'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  expandFilePatterns,
+  getLanguageId,
+  getPositionBase,
+  isDeclarationFile,
+  type Location,
+  offsetToPosition,
+  POSITION_BASE_OPTIONS,
+  POSITION_BASE_USAGE,
+  type Position,
+  positionToOffset,
+  SOURCE_FILE_PATTERN,
+  toWorkspacePath,
+  uriToPath,
+} from './lsp-utils.ts'
+import { createModuleProgram, getExportKind, getModuleExports } from './module-exports.ts'
+import { OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
+import { classifyReference } from './reference-context.ts'
+
+/**
+ * Module-level declaration that is not exported
+ */
+export type LocalDeclaration = { name: string; kind: string; position: Position }
+
+type UnusedSymbol = {
+  name: string
+  kind: string
+  /** `export`: no other file uses it; `local`: nothing references it */
+  scope: 'export' | 'local'
+  file: string
+  position: Position
+  /** References to an unused export within its own file */
+  references?: number
+}
+
+type FindUnusedResult = {
+  files: number
+  /** Number of exports and local declarations checked */
+  checked: { exports: number; locals: number }
+  summary: { exports: number; locals: number }
+  unused: UnusedSymbol[]
+}
+
+const positionKey = (uri: string, { line, character }: Position): string => `${uri}:${line}:${character}`
+
+/**
+ * Names declared by a binding, including those inside destructuring patterns
+ */
+const getBindingNames = (name: ts.BindingName): ts.Identifier[] =>
+  ts.isIdentifier(name)
+    ? [name]
+    : name.elements.flatMap((element) => (ts.isBindingElement(element) ? getBindingNames(element.name) : []))
+
+/**
+ * Names in the `export { name }` lists and `export default name` of a module
+ *
+ * @remarks
+ * These mention a declaration only to export it, so they do not make it used.
+ */
+const getExportListNames = (sourceFile: ts.SourceFile): ts.Identifier[] =>
+  sourceFile.statements.flatMap((statement) => {
+    if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause) {
+      return ts.isNamedExports(statement.exportClause)
+        ? statement.exportClause.elements.flatMap(({ propertyName, name }) => {
+            const local = propertyName ?? name
+            return ts.isIdentifier(local) ? [local] : []
+          })
+        : []
+    }
+    return ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression) ? [statement.expression] : []
+  })
+
+/**
+ * List the declarations at the top level of a module that are not exported
+ *
+ * @remarks
+ * Declarations with an `export` modifier and names exported through `export { name }` or
+ * `export default name` are left out, as are ambient (`declare`) statements.
+ */
+export const getLocalDeclarations = (sourceFile: ts.SourceFile, checker: ts.TypeChecker): LocalDeclaration[] => {
+  const declarations: LocalDeclaration[] = []
+  const exported = new Set(getExportListNames(sourceFile).map(({ text }) => text))
+  const add = (name: ts.Identifier, declaration: ts.Declaration) => {
+    if (exported.has(name.text)) return
+    const symbol = checker.getSymbolAtLocation(name)
+    declarations.push({
+      name: name.text,
+      kind: symbol ? getExportKind(symbol, declaration) : 'Unknown',
+      position: offsetToPosition(sourceFile.text, name.getStart(sourceFile)),
+    })
+  }
+
+  for (const statement of sourceFile.statements) {
+    const modifiers = ts.canHaveModifiers(statement) ? (ts.getModifiers(statement) ?? []) : []
+    if (modifiers.some(({ kind }) => kind === ts.SyntaxKind.ExportKeyword || kind === ts.SyntaxKind.DeclareKeyword)) {
+      continue
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        for (const name of getBindingNames(declaration.name)) {
+          add(name, declaration)
+        }
+      }
+    } else if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement) ||
+        ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isEnumDeclaration(statement)) &&
+      statement.name
+    ) {
+      add(statement.name, statement)
+    }
+  }
+  return declarations
+}
+
+/**
+ * Render unused symbols grouped by file, then the summary
+ */
+const formatUnused = (result: FindUnusedResult): string => {
+  const lines: string[] = []
+  let currentFile: string | undefined
+  for (const { name, kind, scope, file, position, references } of result.unused) {
+    if (file !== currentFile) {
+      lines.push(file)
+      currentFile = file
+    }
+    const usage =
+      scope === 'local'
+        ? 'local, never referenced'
+        : references
+          ? `export, used only in its own file (${references} reference(s))`
+          : 'export, never referenced'
+    lines.push(`  ${`${position.line}:${position.character}`.padEnd(8)}${name} [${kind}] ${usage}`)
+  }
+
+  const { checked, summary } = result
+  lines.push(
+    `${summary.exports} of ${checked.exports} export(s) and ${summary.locals} of ${checked.locals} local declaration(s) unused in ${result.files} file(s)`,
+  )
+  return lines.join('\n')
+}
+
+/**
+ * Find unused exports and local declarations
+ *
+ * @param args - Command line arguments [file|glob...]
+ */
+export const findUnused = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      exclude: { type: 'string', multiple: true },
+      entry: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+      ...OUTPUT_OPTIONS,
+      ...POSITION_BASE_OPTIONS,
+    },
+    allowPositionals: true,
+  })
+
+  if (values.help) {
+    console.log(`
+Find Unused - Report exports no other file uses and declarations nothing references
+
+Usage: find-unused [file|glob...] [options]
+
+Checks every source file in the workspace when no files are given. Imports and re-exports
+do not count as uses. Exits 1 when unused symbols are found.
+
+Options:
+  --exclude <glob>    Skip matching files; references from them still count (repeatable)
+  --entry <file|glob> Treat the exports of a package entry point as used (repeatable)
+${OUTPUT_USAGE.join('\n')}
+${POSITION_BASE_USAGE}
+  --help, -h          Show this help
+
+Examples:
+  find-unused --entry src/index.ts --format=text
+  find-unused 'src/**/*.ts' --exclude 'src/**/*.spec.ts' --entry src/index.ts
+`)
+    process.exit(0)
+  }
+
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  const base = getPositionBase(values)
+  if (base === undefined) {
+    console.error('Error: --one-based and --zero-based cannot be combined')
+    process.exit(1)
+  }
+
+  const excluded = (values.exclude ?? []).map((pattern) => new Glob(pattern))
+  const files = (await expandFilePatterns(positionals.length ? positionals : [SOURCE_FILE_PATTERN])).filter(
+    (path) => !isDeclarationFile(path) && !excluded.some((glob) => glob.match(toWorkspacePath(path))),
+  )
+  if (files.length === 0) {
+    console.error('Error: No files matched')
+    process.exit(1)
+  }
+
+  const entries = values.entry?.length ? await expandFilePatterns(values.entry) : []
+  for (const path of [...files, ...entries]) {
+    if (!(await Bun.file(path).exists())) {
+      console.error(`Error: File not found: ${path}`)
+      process.exit(1)
+    }
+  }
+
+  const program = createModuleProgram([...files, ...entries])
+  const checker = program.getTypeChecker()
+
+  // Declarations reachable from an entry point, including through re-exports
+  const entryExports = new Set<string>()
+  for (const path of entries) {
+    for (const { uri, position } of getModuleExports(path, { program })) {
+      if (position) entryExports.add(positionKey(uri, position))
+    }
+  }
+
+  const sourceFiles = new Map<string, ts.SourceFile | undefined>()
+  const getSourceFile = async (path: string): Promise<ts.SourceFile | undefined> => {
+    if (!sourceFiles.has(path)) {
+      const file = Bun.file(path)
+      sourceFiles.set(
+        path,
+        program.getSourceFile(path) ??
+          ((await file.exists())
+            ? ts.createSourceFile(path, await file.text(), ts.ScriptTarget.Latest, true)
+            : undefined),
+      )
+    }
+    return sourceFiles.get(path)
+  }
+
+  const rootUri = `file://${process.cwd()}`
+  const client = await createLspClient({ rootUri })
+
+  try {
+    await client.start()
+
+    // Open every checked file so references are found beyond the files the server loads itself
+    for (const path of files) {
+      client.openDocument(`file://${path}`, getLanguageId(path), 1, await Bun.file(path).text())
+      await client.waitForProject(`file://${path}`)
+    }
+
+    const findReferences = async (uri: string, position: Position): Promise<Location[]> =>
+      ((await client.references(uri, position.line, position.character, false)) as Location[] | null) ?? []
+
+    const checked = { exports: 0, locals: 0 }
+    const unused: UnusedSymbol[] = []
+
+    for (const path of files) {
+      const uri = `file://${path}`
+      const sourceFile = await getSourceFile(path)
+      if (!sourceFile) continue
+      const file = toWorkspacePath(path)
+      const exportListOffsets = new Set(getExportListNames(sourceFile).map((name) => name.getStart(sourceFile)))
+      const fileUnused: UnusedSymbol[] = []
+
+      // Exports declared here; re-exports are checked at their declaration
+      const exported = new Set<string>()
+      for (const entry of getModuleExports(path, { program })) {
+        if (entry.uri !== uri || !entry.position) continue
+        const key = positionKey(uri, entry.position)
+        if (exported.has(key)) continue
+        exported.add(key)
+        if (entryExports.has(key)) continue
+
+        checked.exports += 1
+        let references = 0
+        let usedElsewhere = false
+        for (const reference of await findReferences(uri, entry.position)) {
+          const referencePath = uriToPath(reference.uri)
+          if (referencePath === path) {
+            if (!exportListOffsets.has(positionToOffset(sourceFile.text, reference.range.start))) references += 1
+            continue
+          }
+          const referenceFile = await getSourceFile(referencePath)
+          if (!referenceFile || classifyReference(referenceFile, reference.range.start) !== 'import') {
+            usedElsewhere = true
+            break
+          }
+        }
+        if (!usedElsewhere) {
+          fileUnused.push({
+            name: entry.local ?? entry.name,
+            kind: entry.kind,
+            scope: 'export',
+            file,
+            position: entry.position,
+            ...(references && { references }),
+          })
+        }
+      }
+
+      for (const declaration of getLocalDeclarations(sourceFile, checker)) {
+        if (exported.has(positionKey(uri, declaration.position))) continue
+        checked.locals += 1
+        if ((await findReferences(uri, declaration.position)).length === 0) {
+          const { name, kind, position } = declaration
+          fileUnused.push({ name, kind, scope: 'local', file, position })
+        }
+      }
+
+      unused.push(
+        ...fileUnused.sort((a, b) => a.position.line - b.position.line || a.position.character - b.position.character),
+      )
+    }
+
+    for (const path of files) {
+      client.closeDocument(`file://${path}`)
+    }
+    await client.stop()
+
+    const result: FindUnusedResult = {
+      files: files.length,
+      checked,
+      summary: {
+        exports: unused.filter(({ scope }) => scope === 'export').length,
+        locals: unused.filter(({ scope }) => scope === 'local').length,
+      },
+      unused,
+    }
+
+    await printResult(
+      result,
+      { ...outputOptions, base },
+      {
+        text: formatUnused,
+        records: (output) => output.unused,
+        withRecords: (output, records) => ({ ...output, unused: records as UnusedSymbol[] }),
+        hint: 'Check fewer files, or add --exclude / --entry',
+      },
+    )
+
+    if (unused.length > 0) {
+      process.exit(1)
+    }
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await findUnused(Bun.argv.slice(2))
+}
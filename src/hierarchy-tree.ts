@@ -0,0 +1,143 @@
+/**
+ * Build and render call/type hierarchy trees from LSP hierarchy items
+ *
+ * @internal
+ */
+
+import { getSymbolKindName, type Range, toWorkspacePath, uriToPath } from './lsp-utils.ts'
+
+/**
+ * Shape shared by LSP `CallHierarchyItem` and `TypeHierarchyItem`
+ */
+export type HierarchyItem = {
+  name: string
+  kind: number
+  detail?: string
+  uri: string
+  range: Range
+  selectionRange: Range
+  data?: unknown
+}
+
+/**
+ * Related item returned when expanding a node, with optional ranges
+ * (e.g. the call sites of an incoming call)
+ */
+export type HierarchyEdge<T extends HierarchyItem> = {
+  item: T
+  ranges?: Range[]
+}
+
+export type HierarchyNode = {
+  name: string
+  kind: string
+  detail?: string
+  file: string
+  range: Range
+  /** Call sites or other ranges linking this node to its parent */
+  ranges?: Range[]
+  /** Set when the item was already expanded elsewhere in the tree */
+  seen?: true
+  children?: HierarchyNode[]
+}
+
+/**
+ * Identity of a hierarchy item: its file and the start of its name
+ */
+export const itemKey = (item: HierarchyItem): string =>
+  `${item.uri}#${item.selectionRange.start.line}:${item.selectionRange.start.character}`
+
+const toNode = (item: HierarchyItem, ranges?: Range[]): HierarchyNode => {
+  const node: HierarchyNode = {
+    name: item.name,
+    kind: getSymbolKindName(item.kind),
+    file: toWorkspacePath(uriToPath(item.uri)),
+    range: item.selectionRange,
+  }
+  if (item.detail) node.detail = item.detail
+  if (ranges?.length) node.ranges = ranges
+  return node
+}
+
+/**
+ * Expand hierarchy items into a tree, up to `depth` levels below the roots
+ *
+ * @remarks
+ * Each item is expanded once. Later occurrences are kept as leaves marked `seen`,
+ * which also stops recursion cycles. An item whose expansion was cut short by the
+ * depth limit is expanded again where it shows up closer to the roots, so the
+ * limit never hides callers or callees that are within reach of the shallower
+ * occurrence.
+ */
+export const buildHierarchyTree = async <T extends HierarchyItem>({
+  roots,
+  depth,
+  getChildren,
+}: {
+  roots: T[]
+  depth: number
+  getChildren: (item: T) => Promise<HierarchyEdge<T>[]>
+}): Promise<HierarchyNode[]> => {
+  // Level each item was expanded at, and whether the depth limit cut its subtree short
+  const expanded = new Map<string, { level: number; truncated: boolean }>()
+
+  const expand = async (
+    item: T,
+    level: number,
+    ranges?: Range[],
+  ): Promise<{ node: HierarchyNode; truncated: boolean }> => {
+    const node = toNode(item, ranges)
+    const key = itemKey(item)
+
+    const previous = expanded.get(key)
+    if (previous && (previous.level <= level || !previous.truncated)) {
+      node.seen = true
+      return { node, truncated: previous.truncated }
+    }
+
+    if (level >= depth) return { node, truncated: true }
+
+    // Items still being expanded (recursion) count as complete
+    const entry = { level, truncated: false }
+    expanded.set(key, entry)
+
+    const edges = await getChildren(item)
+    node.children = []
+    for (const edge of edges) {
+      const child = await expand(edge.item, level + 1, edge.ranges)
+      node.children.push(child.node)
+      if (child.truncated) entry.truncated = true
+    }
+    return { node, truncated: entry.truncated }
+  }
+
+  const tree: HierarchyNode[] = []
+  for (const root of roots) {
+    tree.push((await expand(root, 0)).node)
+  }
+  return tree
+}
+
+/**
+ * Render a hierarchy tree as indented text
+ *
+ * @param marker - Prefix for child nodes, e.g. `←` for callers or `→` for callees
+ */
+export const formatHierarchyTree = (nodes: HierarchyNode[], marker: string): string => {
+  const lines: string[] = []
+
+  const visit = (node: HierarchyNode, indent: number) => {
+    const prefix = indent === 0 ? '' : `${'  '.repeat(indent - 1)}${marker} `
+    const location = `${node.file}:${node.range.start.line}:${node.range.start.character}`
+    const seen = node.seen ? ' (see above)' : ''
+    lines.push(`${prefix}${node.name} [${node.kind}] ${location}${seen}`)
+    for (const child of node.children ?? []) {
+      visit(child, indent + 1)
+    }
+  }
+
+  for (const node of nodes) {
+    visit(node, 0)
+  }
+  return lines.join('\n')
+}
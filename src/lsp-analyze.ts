@@ -6,17 +6,61 @@
  * Useful for understanding a file before making changes.
  *
  * Usage: bun lsp-analyze.ts <file> [options]
+ *        bun lsp-analyze.ts <file:line:col> [options]
+ *        bun lsp-analyze.ts <file|glob...> --symbols|--exports|--all [--summary]
  *
  * Options:
- *   --symbols, -s       List all symbols in the file
- *   --exports, -e       List only exported symbols
- *   --hover <line:char> Get type info at position (can be repeated)
- *   --refs <line:char>  Find references at position (can be repeated)
- *   --all               Run all analyses (symbols + exports)
+ *   --symbols, -s               List all symbols in the file
+ *   --exports, -e               List the module's exports, with re-exports resolved
+ *   --hover <line:char|symbol>  Get type info at position or symbol (can be repeated)
+ *   --refs <line:char|symbol>   Find references at position or symbol (can be repeated)
+ *   --context <n>               Attach n source lines, enclosing symbol and usage to references
+ *   --all                       Run all analyses (symbols + exports)
+ *   --summary                   Add symbol counts by kind and the files with the most exports
+ *   --one-based, --zero-based   Numbering of input and output positions
+ *   --format <json|jsonl|text>  Output format (default: json)
+ *   --max-chars <n>             Truncate output to n characters
+ *   --absolute-uris             Keep file:// URIs instead of workspace-relative paths
+ *
+ * A `file:line:col` argument (1-based unless `--zero-based`) adds hover and references
+ * at that position. Several files or globs are analyzed in one server session, with one
+ * result per file; `--hover` and `--refs` need a single file.
  */
 
 import { parseArgs } from 'node:util'
-import { LspClient } from './lsp-client.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  expandFilePatterns,
+  getLanguageId,
+  getPositionBase,
+  getSymbolKindName,
+  isGlobPattern,
+  type Location,
+  POSITION_BASE_OPTIONS,
+  type Position,
+  type PositionBase,
+  parseFileLocation,
+  resolveSymbolPosition,
+  toLspPosition,
+  toWorkspacePath,
+} from './lsp-utils.ts'
+import { addExportSignatures, createModuleProgram, getModuleExports, type ModuleExport } from './module-exports.ts'
+import {
+  formatHover,
+  formatLocations,
+  type Hover,
+  OUTPUT_OPTIONS,
+  type OutputOptions,
+  parseOutputOptions,
+  printResult,
+} from './output-format.ts'
+import {
+  addReferenceContext,
+  CONTEXT_OPTIONS,
+  formatReferences,
+  parseContextOption,
+  type ReferenceWithContext,
+} from './reference-context.ts'
 import { resolveFilePath } from './resolve-file-path.ts'
 
 type SymbolInfo = {
@@ -26,49 +70,42 @@ type SymbolInfo = {
   children?: SymbolInfo[]
 }
 
+type SymbolEntry = { name: string; kind: string; line: number }
+
 type AnalysisResult = {
   file: string
-  symbols?: Array<{ name: string; kind: string; line: number }>
-  exports?: Array<{ name: string; kind: string; line: number }>
+  symbols?: SymbolEntry[]
+  exports?: ModuleExport[]
   hovers?: Array<{ position: string; content: unknown }>
   references?: Array<{ position: string; locations: unknown }>
 }
 
-const symbolKindNames: Record<number, string> = {
-  1: 'File',
-  2: 'Module',
-  3: 'Namespace',
-  4: 'Package',
-  5: 'Class',
-  6: 'Method',
-  7: 'Property',
-  8: 'Field',
-  9: 'Constructor',
-  10: 'Enum',
-  11: 'Interface',
-  12: 'Function',
-  13: 'Variable',
-  14: 'Constant',
-  15: 'String',
-  16: 'Number',
-  17: 'Boolean',
-  18: 'Array',
-  19: 'Object',
-  20: 'Key',
-  21: 'Null',
-  22: 'EnumMember',
-  23: 'Struct',
-  24: 'Event',
-  25: 'Operator',
-  26: 'TypeParameter',
+/**
+ * Totals over the analyzed files
+ */
+type WorkspaceSummary = {
+  files: number
+  /** Number of symbols per kind, nested symbols included */
+  symbols: Record<string, number>
+  /** Files with the most exports, most first */
+  mostExports: Array<{ file: string; exports: number }>
+}
+
+type MultiAnalysisResult = {
+  /** Per-file results, left out when only the summary was requested */
+  results?: AnalysisResult[]
+  summary?: WorkspaceSummary
 }
 
-const extractSymbols = (symbols: SymbolInfo[], prefix = ''): Array<{ name: string; kind: string; line: number }> => {
-  const result: Array<{ name: string; kind: string; line: number }> = []
+/** Files listed in `mostExports` */
+const MOST_EXPORTS_LIMIT = 10
+
+const extractSymbols = (symbols: SymbolInfo[], prefix = ''): SymbolEntry[] => {
+  const result: SymbolEntry[] = []
   for (const sym of symbols) {
     result.push({
       name: prefix ? `${prefix}.${sym.name}` : sym.name,
-      kind: symbolKindNames[sym.kind] || `Unknown(${sym.kind})`,
+      kind: getSymbolKindName(sym.kind),
       line: sym.range.start.line,
     })
     if (sym.children) {
@@ -78,6 +115,163 @@ const extractSymbols = (symbols: SymbolInfo[], prefix = ''): Array<{ name: strin
   return result
 }
 
+const indent = (text: string): string =>
+  text
+    .split('\n')
+    .map((line) => `  ${line}`)
+    .join('\n')
+
+/**
+ * Render one `name [Kind] (notes)` line per export, followed by its signature
+ */
+const formatExports = (exports: ModuleExport[]): string =>
+  exports
+    .map(({ name, local, from, typeOnly, kind, signature }) => {
+      const notes = [typeOnly && 'type', local && `local ${local}`, from && `from '${from}'`].filter(Boolean)
+      const heading = `${name} [${kind}]${notes.length ? ` (${notes.join(', ')})` : ''}`
+      return signature ? `${heading}\n${indent(signature)}` : heading
+    })
+    .join('\n') || 'None'
+
+/**
+ * Render the requested analyses as titled sections
+ *
+ * @param base - Numbering of the positions in `result`
+ * @param withContext - Whether references carry `--context` details
+ */
+const formatAnalysis = async (result: AnalysisResult, base: PositionBase, withContext: boolean): Promise<string> => {
+  const sections = [result.file]
+  const formatSymbols = (symbols: SymbolEntry[]) =>
+    symbols.map((sym) => `${sym.name} [${sym.kind}] ${sym.line}`).join('\n') || 'None'
+
+  if (result.symbols) sections.push(`Symbols:\n${indent(formatSymbols(result.symbols))}`)
+  if (result.exports) sections.push(`Exports:\n${indent(formatExports(result.exports))}`)
+  for (const { position, content } of result.hovers ?? []) {
+    sections.push(`Hover ${position}:\n${indent(formatHover(content as Hover | null))}`)
+  }
+  for (const { position, locations } of result.references ?? []) {
+    const rendered = withContext
+      ? formatReferences(locations as ReferenceWithContext[])
+      : await formatLocations(locations as Location[] | null, base)
+    sections.push(`References ${position}:\n${indent(rendered)}`)
+  }
+  return sections.join('\n\n')
+}
+
+/**
+ * Count symbols by kind, most frequent first
+ */
+export const countSymbolKinds = (symbols: Array<{ kind: string }>): Record<string, number> => {
+  const counts = new Map<string, number>()
+  for (const { kind } of symbols) {
+    counts.set(kind, (counts.get(kind) ?? 0) + 1)
+  }
+  return Object.fromEntries([...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])))
+}
+
+/**
+ * Render each file's analysis, then the summary
+ */
+const formatMultiAnalysis = async (output: MultiAnalysisResult, base: PositionBase): Promise<string> => {
+  const sections = await Promise.all((output.results ?? []).map((result) => formatAnalysis(result, base, false)))
+  if (output.summary) {
+    const { files, symbols, mostExports } = output.summary
+    const kinds = Object.entries(symbols).map(([kind, count]) => `${count} ${kind}`)
+    const lines = [`Summary: ${files} file(s)`, `  Symbols: ${kinds.join(', ') || 'None'}`, '  Most exports:']
+    lines.push(...mostExports.map(({ file, exports }) => `    ${file}: ${exports}`))
+    sections.push(lines.join('\n'))
+  }
+  return sections.join('\n\n')
+}
+
+/**
+ * Analyze several files in one server session
+ *
+ * @remarks
+ * Exports of all files come from one compiler program. `--summary` needs symbols and
+ * exports of every file, which are left out of the per-file results unless requested.
+ */
+const analyzeFiles = async (
+  patterns: string[],
+  { symbols, exports, summary }: { symbols: boolean; exports: boolean; summary: boolean },
+  outputOptions: OutputOptions,
+  base: PositionBase,
+) => {
+  const files = await expandFilePatterns(patterns)
+  if (files.length === 0) {
+    console.error('Error: No files matched')
+    process.exit(1)
+  }
+
+  const program = exports || summary ? createModuleProgram(files) : undefined
+  const rootUri = `file://${process.cwd()}`
+  const client = await createLspClient({ rootUri })
+
+  try {
+    await client.start()
+
+    const results: AnalysisResult[] = []
+    const allSymbols: SymbolEntry[] = []
+    const exportCounts: WorkspaceSummary['mostExports'] = []
+
+    for (const path of files) {
+      const file = Bun.file(path)
+      if (!(await file.exists())) {
+        console.error(`Error: File not found: ${path}`)
+        await client.stop()
+        process.exit(1)
+      }
+
+      const uri = `file://${path}`
+      client.openDocument(uri, getLanguageId(path), 1, await file.text())
+      const result: AnalysisResult = { file: toWorkspacePath(path) }
+
+      if (symbols || summary) {
+        const entries = extractSymbols(((await client.documentSymbols(uri)) as SymbolInfo[] | null) ?? [])
+        if (symbols) result.symbols = entries.map((sym) => ({ ...sym, line: sym.line + base }))
+        allSymbols.push(...entries)
+      }
+      if (exports || summary) {
+        const moduleExports = getModuleExports(path, { program })
+        if (exports) result.exports = await addExportSignatures(client, moduleExports, [uri])
+        exportCounts.push({ file: result.file, exports: moduleExports.length })
+      }
+
+      client.closeDocument(uri)
+      results.push(result)
+    }
+
+    await client.stop()
+
+    const output: MultiAnalysisResult = symbols || exports ? { results } : {}
+    if (summary) {
+      output.summary = {
+        files: files.length,
+        symbols: countSymbolKinds(allSymbols),
+        mostExports: exportCounts
+          .filter(({ exports: count }) => count > 0)
+          .sort((a, b) => b.exports - a.exports || a.file.localeCompare(b.file))
+          .slice(0, MOST_EXPORTS_LIMIT),
+      }
+    }
+
+    await printResult(
+      output,
+      { ...outputOptions, base },
+      {
+        text: (rendered) => formatMultiAnalysis(rendered, base),
+        records: (rendered) => rendered.results ?? [rendered],
+        withRecords: (rendered, records) => ({ ...rendered, results: records as AnalysisResult[] }),
+        hint: 'Analyze fewer files, or use --summary alone for an overview',
+      },
+    )
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
 /**
  * Batch analysis for TypeScript/JavaScript files
  *
@@ -92,7 +286,11 @@ export const lspAnalyze = async (args: string[]) => {
       hover: { type: 'string', multiple: true },
       refs: { type: 'string', multiple: true },
       all: { type: 'boolean' },
+      summary: { type: 'boolean' },
+      ...CONTEXT_OPTIONS,
       help: { type: 'boolean', short: 'h' },
+      ...POSITION_BASE_OPTIONS,
+      ...OUTPUT_OPTIONS,
     },
     allowPositionals: true,
   })
@@ -102,34 +300,97 @@ export const lspAnalyze = async (args: string[]) => {
 LSP Analyze - Batch analysis for TypeScript/JavaScript files
 
 Usage: lsp-analyze <file> [options]
+       lsp-analyze <file:line:col> [options]
+       lsp-analyze <file|glob...> --symbols|--exports|--all [--summary]
 
 Options:
-  --symbols, -s       List all symbols in the file
-  --exports, -e       List only exported symbols
-  --hover <line:char> Get type info at position (can be repeated)
-  --refs <line:char>  Find references at position (can be repeated)
-  --all               Run all analyses (symbols + exports)
-  --help, -h          Show this help
+  --symbols, -s               List all symbols in the file
+  --exports, -e               List the module's exports, with re-exports resolved
+  --hover <line:char|symbol>  Get type info at position or symbol (can be repeated)
+  --refs <line:char|symbol>   Find references at position or symbol (can be repeated)
+  --context <n>               Attach n source lines, enclosing symbol and usage to references
+  --all                       Run all analyses (symbols + exports)
+  --summary                   Add symbol counts by kind and the files with the most exports
+  --one-based, --zero-based   Numbering of input and output positions
+  --format <json|jsonl|text>  Output format (default: json)
+  --max-chars <n>             Truncate output to n characters
+  --absolute-uris             Keep file:// URIs instead of workspace-relative paths
+  --help, -h                  Show this help
+
+A file:line:col argument, as printed by tsc and biome (1-based unless --zero-based),
+adds hover and references at that position. Other positions are 0-based unless --one-based.
+Several files or globs are analyzed in one server session, with one result per file;
+--hover and --refs need a single file.
 
 Examples:
   lsp-analyze src/app.ts --all
   lsp-analyze src/app.ts --symbols
   lsp-analyze src/app.ts --hover 50:15 --hover 60:20
   lsp-analyze src/app.ts --refs 10:8
+  lsp-analyze src/app.ts --refs parseConfig --context=2 --format=text
+  lsp-analyze src/app.ts --hover parseConfig --refs ConfigManager.load
+  lsp-analyze src/app.ts:42:10 --format=text
+  lsp-analyze 'src/**/*.ts' --exports --symbols --summary
 `)
     process.exit(0)
   }
 
-  const filePath = positionals[0]
+  const location = parseFileLocation(positionals[0] ?? '')
+  const filePath = location?.filePath ?? positionals[0]
   if (!filePath) {
     console.error('Error: File path required')
     process.exit(1)
   }
+
+  const base = getPositionBase(values, Boolean(location))
+  if (base === undefined) {
+    console.error('Error: --one-based and --zero-based cannot be combined')
+    process.exit(1)
+  }
+
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  const context = parseContextOption(values.context)
+  if (typeof context === 'object') {
+    console.error(`Error: ${context.error}`)
+    process.exit(1)
+  }
+
+  const hoverTargets = values.hover ?? []
+  const refsTargets = values.refs ?? []
+
+  if (positionals.length > 1 || isGlobPattern(filePath) || values.summary) {
+    if (location || hoverTargets.length || refsTargets.length) {
+      console.error('Error: --hover, --refs and file:line:col need a single file')
+      process.exit(1)
+    }
+    const analyses = {
+      symbols: Boolean(values.symbols || values.all),
+      exports: Boolean(values.exports || values.all),
+      summary: Boolean(values.summary),
+    }
+    if (!analyses.symbols && !analyses.exports && !analyses.summary) {
+      console.error('Error: Choose --symbols, --exports, --all or --summary to analyze several files')
+      process.exit(1)
+    }
+    await analyzeFiles(positionals, analyses, outputOptions, base)
+    return
+  }
+
+  if (location) {
+    const position = `${location.position.line}:${location.position.character}`
+    hoverTargets.unshift(position)
+    refsTargets.unshift(position)
+  }
   const absolutePath = await resolveFilePath(filePath)
   const uri = `file://${absolutePath}`
   const rootUri = `file://${process.cwd()}`
 
-  const client = new LspClient({ rootUri })
+  const client = await createLspClient({ rootUri })
 
   try {
     await client.start()
@@ -141,75 +402,71 @@ Examples:
     }
 
     const text = await file.text()
-    const languageId = absolutePath.endsWith('.tsx')
-      ? 'typescriptreact'
-      : absolutePath.endsWith('.ts')
-        ? 'typescript'
-        : absolutePath.endsWith('.jsx')
-          ? 'javascriptreact'
-          : 'javascript'
+    client.openDocument(uri, getLanguageId(absolutePath), 1, text)
+
+    const result: AnalysisResult = { file: toWorkspacePath(absolutePath) }
 
-    client.openDocument(uri, languageId, 1, text)
+    // `--hover` / `--refs` take `line:char` or a symbol name
+    const resolvePosition = async (value: string): Promise<Position> => {
+      const match = value.match(/^(\d+):(\d+)$/)
+      if (!match) return resolveSymbolPosition(client, uri, value, base)
 
-    const result: AnalysisResult = { file: filePath }
+      const position = toLspPosition({ line: Number(match[1]), character: Number(match[2]) }, base)
+      if (!position) throw new Error(`Invalid ${base === 1 ? '1-based' : '0-based'} position: ${value}`)
+      return position
+    }
 
     // Get symbols if requested
-    if (values.symbols || values.exports || values.all) {
+    if (values.symbols || values.all) {
       const symbols = (await client.documentSymbols(uri)) as SymbolInfo[]
-      const extracted = extractSymbols(symbols)
-
-      if (values.symbols || values.all) {
-        result.symbols = extracted
-      }
+      result.symbols = extractSymbols(symbols)
+    }
 
-      if (values.exports || values.all) {
-        // Filter to only top-level exports (items that start with export in source)
-        const lines = text.split('\n')
-        result.exports = extracted.filter((sym) => {
-          const line = lines[sym.line]
-          return line?.includes('export')
-        })
-      }
+    // Get exports if requested, as the compiler resolves them
+    if (values.exports || values.all) {
+      result.exports = await addExportSignatures(client, getModuleExports(absolutePath), [uri])
     }
 
     // Get hover info if requested
-    if (values.hover?.length) {
+    if (hoverTargets.length) {
       result.hovers = []
-      for (const pos of values.hover) {
-        const parts = pos.split(':')
-        const lineStr = parts[0] ?? ''
-        const charStr = parts[1] ?? ''
-        const line = parseInt(lineStr, 10)
-        const char = parseInt(charStr, 10)
-
-        if (!Number.isNaN(line) && !Number.isNaN(char)) {
-          const hover = await client.hover(uri, line, char)
-          result.hovers.push({ position: pos, content: hover })
-        }
+      for (const pos of hoverTargets) {
+        const { line, character } = await resolvePosition(pos)
+        const hover = await client.hover(uri, line, character)
+        result.hovers.push({ position: pos, content: hover })
       }
     }
 
     // Get references if requested
-    if (values.refs?.length) {
+    if (refsTargets.length) {
+      await client.waitForProject(uri)
       result.references = []
-      for (const pos of values.refs) {
-        const parts = pos.split(':')
-        const lineStr = parts[0] ?? ''
-        const charStr = parts[1] ?? ''
-        const line = parseInt(lineStr, 10)
-        const char = parseInt(charStr, 10)
-
-        if (!Number.isNaN(line) && !Number.isNaN(char)) {
-          const refs = await client.references(uri, line, char, true)
-          result.references.push({ position: pos, locations: refs })
-        }
+      for (const pos of refsTargets) {
+        const { line, character } = await resolvePosition(pos)
+        const refs = (await client.references(uri, line, character, true)) as Location[] | null
+        const locations =
+          context === undefined
+            ? refs
+            : await addReferenceContext(client, refs ?? [], { size: context, base, openUris: [uri] })
+        result.references.push({ position: pos, locations })
       }
     }
 
     client.closeDocument(uri)
     await client.stop()
 
-    console.log(JSON.stringify(result, null, 2))
+    // Symbol lines are plain numbers rather than positions, so they are not converted on output
+    const toBase = (symbols: SymbolEntry[]) => symbols.map((sym) => ({ ...sym, line: sym.line + base }))
+    if (result.symbols) result.symbols = toBase(result.symbols)
+
+    await printResult(
+      result,
+      { ...outputOptions, base },
+      {
+        text: (output) => formatAnalysis(output, base, context !== undefined),
+        hint: 'Run fewer analyses at once, e.g. --exports instead of --all',
+      },
+    )
   } catch (error) {
     console.error(`Error: ${error}`)
     await client.stop()
@@ -0,0 +1,310 @@
+#!/usr/bin/env bun
+/**
+ * Run newline-delimited JSON queries from stdin against one language server session
+ *
+ * Each input line is a request such as `{"id":1,"op":"hover","file":"src/a.ts","line":3,"char":5}`.
+ * Requests run in order; each document is opened on first use and stays open until the
+ * input ends. One JSON response is printed per request as soon as it completes, carrying
+ * the request's `id` (or its input line number) and either `result` or `error`.
+ *
+ * Usage: bun lsp-batch.ts [options] < requests.jsonl
+ *
+ * Options:
+ *   --one-based, --zero-based  Numbering of request and result positions (default: 0-based)
+ *   --absolute-uris            Keep file:// URIs instead of workspace-relative paths
+ */
+
+import { parseArgs } from 'node:util'
+import type { LspClient } from './lsp-client.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  findDefaultContextFile,
+  getLanguageId,
+  getPositionBase,
+  type Location,
+  normalizeLocations,
+  POSITION_BASE_OPTIONS,
+  type Position,
+  type PositionBase,
+  resolveSymbolPosition,
+  toLspPosition,
+  withPositionBase,
+  withWorkspacePaths,
+} from './lsp-utils.ts'
+import { addExportSignatures, getModuleExports } from './module-exports.ts'
+import { addReferenceContext } from './reference-context.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+
+/** Operations taking a position, given as `line` and `char` or as `symbol` */
+const POSITION_OPS = ['hover', 'definition', 'type-definition', 'implementations', 'refs', 'signature'] as const
+
+/** Operations on a whole file */
+const FILE_OPS = ['symbols', 'exports'] as const
+
+const BATCH_OPS = [...POSITION_OPS, ...FILE_OPS, 'find'] as const
+
+type BatchOp = (typeof BATCH_OPS)[number]
+
+/** Operations whose results span files, so they wait for the project to load */
+const CROSS_FILE_OPS = new Set<BatchOp>(['definition', 'type-definition', 'implementations', 'refs', 'find'])
+
+/**
+ * One request line, as parsed and checked
+ */
+export type BatchRequest = {
+  /** Request id echoed in the response; defaults to the input line number */
+  id: string | number
+  op: BatchOp
+  file?: string
+  /** Position in the request numbering */
+  position?: Position
+  /** Symbol name instead of a position, e.g. `parseConfig` or `ConfigManager.load` */
+  symbol?: string
+  /** Search query of `find` */
+  query?: string
+  /** Source lines around each reference of `refs` */
+  context?: number
+}
+
+type BatchResponse = { id: string | number; op?: string; result?: unknown; error?: string }
+
+type BatchError = BatchResponse & { error: string }
+
+const isNonNegativeInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0
+
+/**
+ * Parse and check one input line
+ *
+ * @param lineNumber - 1-based input line number, the id of requests without one
+ */
+export const parseBatchRequest = (text: string, lineNumber: number): BatchRequest | BatchError => {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    return { id: lineNumber, error: 'Invalid JSON' }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { id: lineNumber, error: 'Request must be a JSON object' }
+  }
+
+  const {
+    id = lineNumber,
+    op,
+    file,
+    line,
+    char,
+    character = char,
+    symbol,
+    query,
+    context,
+  } = value as Record<string, unknown>
+  if (typeof id !== 'string' && typeof id !== 'number') {
+    return { id: lineNumber, error: 'id must be a string or number' }
+  }
+  if (!BATCH_OPS.includes(op as BatchOp)) {
+    return { id, error: `op must be one of: ${BATCH_OPS.join(', ')}` }
+  }
+
+  const request: BatchRequest = { id, op: op as BatchOp }
+  const fail = (error: string): BatchError => ({ id, op: request.op, error })
+
+  if (file !== undefined && typeof file !== 'string') return fail('file must be a string')
+  if (file) request.file = file
+  if (request.op !== 'find' && !request.file) return fail(`${request.op} requires file`)
+
+  if (request.op === 'find') {
+    if (typeof query !== 'string' || !query) return fail('find requires query')
+    request.query = query
+  }
+
+  if ((POSITION_OPS as readonly string[]).includes(request.op)) {
+    if (typeof symbol === 'string' && symbol) {
+      request.symbol = symbol
+    } else if (isNonNegativeInteger(line) && isNonNegativeInteger(character)) {
+      request.position = { line, character }
+    } else {
+      return fail(`${request.op} requires line and char, or symbol`)
+    }
+  }
+
+  if (context !== undefined) {
+    if (request.op !== 'refs' || !isNonNegativeInteger(context)) {
+      return fail('context applies to refs, as a number of lines')
+    }
+    request.context = context
+  }
+  return request
+}
+
+/**
+ * Run one request, opening its file when it is not open yet
+ *
+ * @param opened - Open documents by absolute path, shared across requests
+ */
+const runRequest = async (
+  client: LspClient,
+  request: BatchRequest,
+  base: PositionBase,
+  opened: Map<string, string>,
+): Promise<unknown> => {
+  let uri: string | undefined
+  let path: string | undefined
+  // Workspace symbol search needs an open document for project context
+  let file = request.file
+  if (request.op === 'find' && !file && !opened.size) {
+    file = (await findDefaultContextFile()) ?? undefined
+    if (!file) {
+      throw new Error('find needs a file for project context: none given, and no src/index.ts, src/main.ts or index.ts')
+    }
+  }
+  if (file) {
+    path = await resolveFilePath(file)
+    uri = opened.get(path)
+    if (!uri) {
+      const source = Bun.file(path)
+      if (!(await source.exists())) throw new Error(`File not found: ${file}`)
+      uri = `file://${path}`
+      client.openDocument(uri, getLanguageId(path), 1, await source.text())
+      opened.set(path, uri)
+    }
+  }
+  if (CROSS_FILE_OPS.has(request.op)) {
+    await client.waitForProject(uri ?? [...opened.values()][0]!)
+  }
+
+  if (request.op === 'find') return client.workspaceSymbols(request.query!)
+  if (request.op === 'symbols') return client.documentSymbols(uri!)
+  if (request.op === 'exports') return addExportSignatures(client, getModuleExports(path!), [...opened.values()])
+
+  let position: Position
+  if (request.position) {
+    const converted = toLspPosition(request.position, base)
+    if (!converted) throw new Error(`Invalid ${base === 1 ? '1-based' : '0-based'} position`)
+    position = converted
+  } else {
+    position = await resolveSymbolPosition(client, uri!, request.symbol!, base)
+  }
+  const { line, character } = position
+
+  switch (request.op) {
+    case 'hover':
+      return client.hover(uri!, line, character)
+    case 'definition':
+      return normalizeLocations(await client.definition(uri!, line, character))
+    case 'type-definition':
+      return normalizeLocations(await client.typeDefinition(uri!, line, character))
+    case 'implementations':
+      return normalizeLocations(await client.implementation(uri!, line, character))
+    case 'signature':
+      return client.signatureHelp(uri!, line, character)
+    case 'refs': {
+      const locations = ((await client.references(uri!, line, character, true)) as Location[] | null) ?? []
+      if (request.context === undefined) return locations
+      return addReferenceContext(client, locations, { size: request.context, base, openUris: [...opened.values()] })
+    }
+  }
+}
+
+/**
+ * Run JSONL requests from stdin and stream JSONL responses
+ *
+ * @param args - Command line arguments
+ */
+export const lspBatch = async (args: string[]) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'absolute-uris': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+      ...POSITION_BASE_OPTIONS,
+    },
+  })
+
+  if (values.help || process.stdin.isTTY) {
+    console.log(`
+LSP Batch - Run JSONL queries from stdin in one language server session
+
+Usage: lsp-batch [options] < requests.jsonl
+
+Each line is a JSON request with an optional "id" and an "op":
+  hover, definition, type-definition, implementations, signature
+                  {"op":"hover","file":"src/a.ts","line":3,"char":5} or {"op":"hover","file":"src/a.ts","symbol":"parseConfig"}
+  refs            Same, plus optional "context": lines around each reference
+  symbols, exports  {"op":"symbols","file":"src/b.ts"}
+  find            {"op":"find","query":"Config"}, optionally with "file" for project context
+                  (default: any open file, else src/index.ts, src/main.ts or index.ts)
+
+Each response line carries the request "id" (default: its input line number) and "result"
+or "error". Exits 1 when any request failed.
+
+Options:
+  --one-based, --zero-based  Numbering of request and result positions (default: 0-based)
+  --absolute-uris            Keep file:// URIs instead of workspace-relative paths
+  --help, -h                 Show this help
+
+Examples:
+  lsp-batch < requests.jsonl
+  printf '%s\\n' '{"op":"symbols","file":"src/app.ts"}' '{"op":"refs","file":"src/app.ts","symbol":"main"}' | lsp-batch
+`)
+    process.exit(values.help ? 0 : 1)
+  }
+
+  const base = getPositionBase(values)
+  if (base === undefined) {
+    console.error('Error: --one-based and --zero-based cannot be combined')
+    process.exit(1)
+  }
+
+  const print = (response: BatchResponse) => {
+    const output = withPositionBase(response, base)
+    console.log(JSON.stringify(values['absolute-uris'] ? output : withWorkspacePaths(output)))
+  }
+
+  const rootUri = `file://${process.cwd()}`
+  const client = await createLspClient({ rootUri })
+  const opened = new Map<string, string>()
+  let failed = false
+
+  try {
+    await client.start()
+
+    let lineNumber = 0
+    for await (const line of console) {
+      lineNumber += 1
+      if (!line.trim()) continue
+
+      const request = parseBatchRequest(line, lineNumber)
+      if ('error' in request) {
+        failed = true
+        print(request)
+        continue
+      }
+
+      try {
+        print({ id: request.id, op: request.op, result: (await runRequest(client, request, base, opened)) ?? null })
+      } catch (error) {
+        failed = true
+        print({ id: request.id, op: request.op, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    for (const uri of opened.values()) {
+      client.closeDocument(uri)
+    }
+    await client.stop()
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+
+  if (failed) {
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await lspBatch(Bun.argv.slice(2))
+}
@@ -0,0 +1,136 @@
+#!/usr/bin/env bun
+/**
+ * Show who calls a function (incoming) or what it calls (outgoing), N levels deep
+ *
+ * Usage: bun lsp-calls.ts <file> <line> <character> [options]
+ *        bun lsp-calls.ts <file> --symbol <name> [options]
+ *        bun lsp-calls.ts <file:line:col> [options]
+ *
+ * Options:
+ *   --direction <in|out>        Incoming callers or outgoing callees (default: in)
+ *   --depth <n>                 Levels to expand (default: 3)
+ *   --format <json|jsonl|text>  JSON tree, JSON lines or indented text tree (default: json)
+ *   --max-chars <n>             Truncate output to n characters
+ */
+
+import { parseArgs } from 'node:util'
+import { buildHierarchyTree, formatHierarchyTree, type HierarchyItem } from './hierarchy-tree.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  getLanguageId,
+  POSITION_OPTIONS,
+  POSITION_USAGE,
+  parsePositionArgs,
+  type Range,
+  resolveTargetPosition,
+} from './lsp-utils.ts'
+import { OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+
+type IncomingCall = { from: HierarchyItem; fromRanges: Range[] }
+type OutgoingCall = { to: HierarchyItem; fromRanges: Range[] }
+
+/**
+ * Print the call hierarchy of the function at a cursor position
+ *
+ * @param args - Command line arguments [file, line, character]
+ */
+export const lspCalls = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      direction: { type: 'string', default: 'in' },
+      depth: { type: 'string', default: '3' },
+      ...POSITION_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    },
+    allowPositionals: true,
+  })
+
+  const target = parsePositionArgs(positionals, values)
+
+  if (!target) {
+    console.error(
+      'Usage: lsp-calls <file> <line> <character> [--direction=in|out] [--depth=N] [--format=json|jsonl|text]',
+    )
+    console.error('       lsp-calls <file> --symbol <name> [options]')
+    console.error('       lsp-calls <file:line:col> [options]')
+    console.error(POSITION_USAGE.join('\n'))
+    console.error(OUTPUT_USAGE.join('\n'))
+    process.exit(1)
+  }
+
+  const direction = values.direction
+  if (direction !== 'in' && direction !== 'out') {
+    console.error('Error: --direction must be "in" or "out"')
+    process.exit(1)
+  }
+
+  const depth = Number(values.depth)
+  if (!Number.isInteger(depth) || depth < 1) {
+    console.error('Error: --depth must be a positive number')
+    process.exit(1)
+  }
+
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  const absolutePath = await resolveFilePath(target.filePath)
+  const uri = `file://${absolutePath}`
+  const rootUri = `file://${process.cwd()}`
+
+  const client = await createLspClient({ rootUri })
+
+  try {
+    await client.start()
+
+    const file = Bun.file(absolutePath)
+    if (!(await file.exists())) {
+      console.error(`Error: File not found: ${absolutePath}`)
+      process.exit(1)
+    }
+
+    client.openDocument(uri, getLanguageId(absolutePath), 1, await file.text())
+    await client.waitForProject(uri)
+
+    const { line, character } = await resolveTargetPosition(client, uri, target)
+    const roots = ((await client.prepareCallHierarchy(uri, line, character)) as HierarchyItem[] | null) ?? []
+
+    const tree = await buildHierarchyTree({
+      roots,
+      depth,
+      getChildren: async (item) => {
+        if (direction === 'in') {
+          const calls = ((await client.incomingCalls(item)) as IncomingCall[] | null) ?? []
+          return calls.map((call) => ({ item: call.from, ranges: call.fromRanges }))
+        }
+        const calls = ((await client.outgoingCalls(item)) as OutgoingCall[] | null) ?? []
+        return calls.map((call) => ({ item: call.to, ranges: call.fromRanges }))
+      },
+    })
+
+    client.closeDocument(uri)
+    await client.stop()
+
+    await printResult(
+      tree,
+      { ...outputOptions, base: target.base },
+      {
+        text: (nodes) => formatHierarchyTree(nodes, direction === 'in' ? '←' : '→'),
+        hint: 'Lower --depth',
+      },
+    )
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await lspCalls(Bun.argv.slice(2))
+}
@@ -8,6 +8,8 @@
  * @internal
  */
 
+import { basename } from 'node:path'
+import { fileURLToPath } from 'node:url'
 import type { Subprocess } from 'bun'
 
 type JsonRpcRequest = {
@@ -30,6 +32,47 @@ type JsonRpcNotification = {
   params?: unknown
 }
 
+/**
+ * Request sent by the server to the client (e.g. workspace/configuration)
+ */
+type JsonRpcServerRequest = {
+  jsonrpc: '2.0'
+  id: number | string
+  method: string
+  params?: unknown
+}
+
+type JsonRpcServerResponse = {
+  jsonrpc: '2.0'
+  id: number | string
+  result?: unknown
+  error?: { code: number; message: string }
+}
+
+/**
+ * Result or error sent back for a server request
+ */
+export type ServerRequestAnswer = Pick<JsonRpcServerResponse, 'result' | 'error'>
+
+type JsonRpcMessage = JsonRpcResponse | JsonRpcNotification | JsonRpcServerRequest
+
+/**
+ * Handler for server notifications
+ *
+ * @remarks
+ * Receives the method name as second argument so wildcard (`*`) handlers can tell messages apart.
+ */
+export type NotificationHandler = (params: unknown, method: string) => void
+
+/**
+ * Handler for server requests; the return value is sent back as the result
+ */
+export type RequestHandler = (params: unknown, method: string) => unknown
+
+/** JSON-RPC error codes used when answering server requests */
+const METHOD_NOT_FOUND = -32601
+const INTERNAL_ERROR = -32603
+
 type PendingRequest = {
   resolve: (value: unknown) => void
   reject: (error: Error) => void
@@ -49,6 +92,9 @@ export class LspClient {
   #rootUri: string
   #serverCommand: string[]
   #requestTimeout: number
+  #serverCapabilities: Record<string, unknown> = {}
+  #notificationHandlers = new Map<string, Set<NotificationHandler>>()
+  #requestHandlers = new Map<string, RequestHandler>()
 
   constructor({
     rootUri,
@@ -102,6 +148,7 @@ export class LspClient {
     this.#process.kill()
     this.#process = null
     this.#initialized = false
+    this.#serverCapabilities = {}
   }
 
   /**
@@ -111,6 +158,16 @@ export class LspClient {
     return this.#process !== null && this.#initialized
   }
 
+  /**
+   * Capabilities the server announced in its `initialize` response
+   *
+   * @remarks
+   * Empty until the server has started.
+   */
+  get serverCapabilities(): Record<string, unknown> {
+    return this.#serverCapabilities
+  }
+
   /**
    * Send a request to the LSP server and wait for response
    */
@@ -160,6 +217,62 @@ export class LspClient {
     this.#send(notification)
   }
 
+  /**
+   * Subscribe to server notifications such as `textDocument/publishDiagnostics` or `$/progress`
+   *
+   * @param method - Notification method, or `*` for every notification
+   * @returns Function that removes the handler
+   */
+  onNotification(method: string, handler: NotificationHandler): () => void {
+    let handlers = this.#notificationHandlers.get(method)
+    if (!handlers) {
+      handlers = new Set()
+      this.#notificationHandlers.set(method, handlers)
+    }
+    handlers.add(handler)
+
+    return () => {
+      handlers.delete(handler)
+    }
+  }
+
+  /**
+   * Answer server requests such as `workspace/configuration`
+   *
+   * @remarks
+   * Replaces the default reply for that method. Handlers may return a promise.
+   * Throwing from a handler sends a JSON-RPC error back to the server.
+   *
+   * @returns Function that removes the handler and restores the default reply
+   */
+  onRequest(method: string, handler: RequestHandler): () => void {
+    this.#requestHandlers.set(method, handler)
+
+    return () => {
+      if (this.#requestHandlers.get(method) === handler) {
+        this.#requestHandlers.delete(method)
+      }
+    }
+  }
+
+  /**
+   * Deliver a notification to subscribed handlers
+   *
+   * @remarks
+   * Called for every notification read from the server. Clients that receive
+   * notifications from elsewhere (e.g. the LSP daemon) call it directly.
+   */
+  protected dispatchNotification(method: string, params: unknown): void {
+    const handlers = [...(this.#notificationHandlers.get(method) ?? []), ...(this.#notificationHandlers.get('*') ?? [])]
+    for (const handler of handlers) {
+      try {
+        handler(params, method)
+      } catch {
+        // A failing subscriber must not break message processing
+      }
+    }
+  }
+
   // LSP Methods
 
   /**
@@ -182,6 +295,84 @@ export class LspClient {
     })
   }
 
+  /**
+   * textDocument/typeDefinition - Go to the definition of the symbol's type
+   */
+  async typeDefinition(uri: string, line: number, character: number): Promise<unknown> {
+    return this.request('textDocument/typeDefinition', {
+      textDocument: { uri },
+      position: { line, character },
+    })
+  }
+
+  /**
+   * textDocument/declaration - Go to declaration
+   */
+  async declaration(uri: string, line: number, character: number): Promise<unknown> {
+    return this.request('textDocument/declaration', {
+      textDocument: { uri },
+      position: { line, character },
+    })
+  }
+
+  /**
+   * textDocument/implementation - Find implementations of an interface or abstract member
+   */
+  async implementation(uri: string, line: number, character: number): Promise<unknown> {
+    return this.request('textDocument/implementation', {
+      textDocument: { uri },
+      position: { line, character },
+    })
+  }
+
+  /**
+   * textDocument/prepareCallHierarchy - Resolve call hierarchy items at a position
+   */
+  async prepareCallHierarchy(uri: string, line: number, character: number): Promise<unknown> {
+    return this.request('textDocument/prepareCallHierarchy', {
+      textDocument: { uri },
+      position: { line, character },
+    })
+  }
+
+  /**
+   * callHierarchy/incomingCalls - Find callers of a call hierarchy item
+   */
+  async incomingCalls(item: unknown): Promise<unknown> {
+    return this.request('callHierarchy/incomingCalls', { item })
+  }
+
+  /**
+   * callHierarchy/outgoingCalls - Find calls made by a call hierarchy item
+   */
+  async outgoingCalls(item: unknown): Promise<unknown> {
+    return this.request('callHierarchy/outgoingCalls', { item })
+  }
+
+  /**
+   * textDocument/prepareTypeHierarchy - Resolve type hierarchy items at a position
+   */
+  async prepareTypeHierarchy(uri: string, line: number, character: number): Promise<unknown> {
+    return this.request('textDocument/prepareTypeHierarchy', {
+      textDocument: { uri },
+      position: { line, character },
+    })
+  }
+
+  /**
+   * typeHierarchy/supertypes - Find the types a type hierarchy item extends or implements
+   */
+  async supertypes(item: unknown): Promise<unknown> {
+    return this.request('typeHierarchy/supertypes', { item })
+  }
+
+  /**
+   * typeHierarchy/subtypes - Find the types extending or implementing a type hierarchy item
+   */
+  async subtypes(item: unknown): Promise<unknown> {
+    return this.request('typeHierarchy/subtypes', { item })
+  }
+
   /**
    * textDocument/references - Find all references
    */
@@ -193,6 +384,55 @@ export class LspClient {
     })
   }
 
+  /**
+   * textDocument/prepareRename - Check that the symbol at a position can be renamed
+   */
+  async prepareRename(uri: string, line: number, character: number): Promise<unknown> {
+    return this.request('textDocument/prepareRename', {
+      textDocument: { uri },
+      position: { line, character },
+    })
+  }
+
+  /**
+   * textDocument/rename - Compute the workspace edit that renames a symbol
+   */
+  async rename(uri: string, line: number, character: number, newName: string): Promise<unknown> {
+    return this.request('textDocument/rename', {
+      textDocument: { uri },
+      position: { line, character },
+      newName,
+    })
+  }
+
+  /**
+   * textDocument/codeAction - List quick fixes, refactorings and source actions for a range
+   *
+   * @param context - Diagnostics overlapping the range and optional `only` kinds filter
+   */
+  async codeAction(
+    uri: string,
+    range: { start: { line: number; character: number }; end: { line: number; character: number } },
+    context: { diagnostics: unknown[]; only?: string[] },
+  ): Promise<unknown> {
+    return this.request('textDocument/codeAction', {
+      textDocument: { uri },
+      range,
+      context,
+    })
+  }
+
+  /**
+   * workspace/executeCommand - Run a server command, e.g. the command of a code action
+   *
+   * @remarks
+   * Servers usually apply the resulting changes by sending `workspace/applyEdit`
+   * back to the client; register a handler with {@link onRequest} to receive them.
+   */
+  async executeCommand(command: string, args: unknown[] = []): Promise<unknown> {
+    return this.request('workspace/executeCommand', { command, arguments: args })
+  }
+
   /**
    * textDocument/completion - Get completions at a position
    */
@@ -203,6 +443,13 @@ export class LspClient {
     })
   }
 
+  /**
+   * completionItem/resolve - Fill in detail, documentation and auto-import edits of a completion item
+   */
+  async resolveCompletionItem(item: unknown): Promise<unknown> {
+    return this.request('completionItem/resolve', item)
+  }
+
   /**
    * textDocument/signatureHelp - Get signature help
    */
@@ -229,6 +476,22 @@ export class LspClient {
     return this.request('workspace/symbol', { query })
   }
 
+  /**
+   * Wait until the server has loaded the project of an open document
+   *
+   * @remarks
+   * While a project loads, typescript-language-server answers definitions, references
+   * and workspace symbols from a syntax-only server that only sees the open files, so
+   * cross-file queries should wait for this first. Other queries need not.
+   */
+  async waitForProject(uri: string): Promise<void> {
+    // projectInfo is only answered by the full server, once the project is loaded
+    await this.executeCommand('typescript.tsserverRequest', [
+      'projectInfo',
+      { file: fileURLToPath(uri), needFileNameList: false },
+    ])
+  }
+
   /**
    * Open a document in the LSP server
    */
@@ -260,11 +523,25 @@ export class LspClient {
         textDocument: {
           hover: { contentFormat: ['markdown', 'plaintext'] },
           definition: { linkSupport: true },
+          typeDefinition: { linkSupport: true },
+          declaration: { linkSupport: true },
+          implementation: { linkSupport: true },
+          callHierarchy: {},
+          typeHierarchy: {},
           references: {},
+          rename: { prepareSupport: true },
+          codeAction: {
+            codeActionLiteralSupport: {
+              codeActionKind: { valueSet: ['quickfix', 'refactor', 'source'] },
+            },
+            isPreferredSupport: true,
+          },
           completion: {
             completionItem: {
               snippetSupport: true,
               documentationFormat: ['markdown', 'plaintext'],
+              labelDetailsSupport: true,
+              resolveSupport: { properties: ['detail', 'documentation', 'additionalTextEdits'] },
             },
           },
           signatureHelp: {
@@ -275,20 +552,108 @@ export class LspClient {
           documentSymbol: {
             hierarchicalDocumentSymbolSupport: true,
           },
+          publishDiagnostics: {
+            relatedInformation: true,
+          },
         },
         workspace: {
           symbol: { symbolKind: {} },
+          workspaceEdit: { documentChanges: true },
+          applyEdit: true,
+          executeCommand: {},
+          configuration: true,
+          workspaceFolders: true,
+        },
+        window: {
+          workDoneProgress: true,
         },
       },
+      workspaceFolders: this.#getWorkspaceFolders(),
     })
 
+    this.#serverCapabilities = (result as { capabilities?: Record<string, unknown> }).capabilities ?? {}
     this.notify('initialized', {})
     this.#initialized = true
+  }
 
-    return result as Promise<void>
+  #getWorkspaceFolders(): Array<{ uri: string; name: string }> {
+    return [{ uri: this.#rootUri, name: basename(this.#rootUri) }]
   }
 
-  #send(message: JsonRpcRequest | JsonRpcNotification): void {
+  /**
+   * Compute the answer to a server request from registered handlers or the default replies
+   *
+   * @remarks
+   * Called for every request read from the server. Clients that receive
+   * server requests from elsewhere (e.g. the LSP daemon) call it directly.
+   */
+  protected async answerServerRequest(method: string, params: unknown): Promise<ServerRequestAnswer> {
+    const handler = this.#requestHandlers.get(method)
+
+    try {
+      if (handler) {
+        return { result: (await handler(params, method)) ?? null }
+      }
+      const fallback = this.#defaultRequestReply(method, params)
+      if (fallback) {
+        return fallback
+      }
+      return { error: { code: METHOD_NOT_FOUND, message: `Unhandled method ${method}` } }
+    } catch (error) {
+      return { error: { code: INTERNAL_ERROR, message: error instanceof Error ? error.message : String(error) } }
+    }
+  }
+
+  /**
+   * Default replies for standard server→client requests
+   *
+   * @remarks
+   * Servers block on some of these (e.g. `workspace/configuration`), so every
+   * standard request gets a well-formed answer even without a registered handler.
+   */
+  #defaultRequestReply(method: string, params: unknown): { result: unknown } | undefined {
+    switch (method) {
+      case 'workspace/configuration': {
+        const items = (params as { items?: unknown[] } | undefined)?.items ?? []
+        return { result: items.map(() => null) }
+      }
+      case 'workspace/workspaceFolders':
+        return { result: this.#getWorkspaceFolders() }
+      case 'workspace/applyEdit':
+        return { result: { applied: false, failureReason: 'Client does not apply server edits' } }
+      case 'window/showDocument':
+        return { result: { success: false } }
+      case 'client/registerCapability':
+      case 'client/unregisterCapability':
+      case 'window/workDoneProgress/create':
+      case 'window/showMessageRequest':
+      case 'workspace/codeLens/refresh':
+      case 'workspace/semanticTokens/refresh':
+      case 'workspace/inlayHint/refresh':
+      case 'workspace/inlineValue/refresh':
+      case 'workspace/diagnostic/refresh':
+      // typescript-language-server asks the editor to start a rename after extract refactorings
+      case '_typescript.rename':
+        return { result: null }
+      default:
+        return undefined
+    }
+  }
+
+  async #handleServerRequest(message: JsonRpcServerRequest): Promise<void> {
+    const reply: JsonRpcServerResponse = {
+      jsonrpc: '2.0',
+      id: message.id,
+      ...(await this.answerServerRequest(message.method, message.params)),
+    }
+
+    // The server may have exited while the handler ran
+    if (this.#process) {
+      this.#send(reply)
+    }
+  }
+
+  #send(message: JsonRpcRequest | JsonRpcNotification | JsonRpcServerResponse): void {
     const stdin = this.#process?.stdin
     if (!stdin || typeof stdin === 'number') {
       throw new Error('LSP server stdin not available')
@@ -356,7 +721,7 @@ export class LspClient {
       this.#contentLength = -1
 
       try {
-        const message = JSON.parse(content) as JsonRpcResponse
+        const message = JSON.parse(content) as JsonRpcMessage
         this.#handleMessage(message)
       } catch {
         // Skip invalid JSON
@@ -380,8 +745,22 @@ export class LspClient {
     return -1
   }
 
-  #handleMessage(message: JsonRpcResponse): void {
-    if ('id' in message && message.id !== undefined) {
+  #handleMessage(message: JsonRpcMessage): void {
+    // Server → client request
+    if ('method' in message && 'id' in message && message.id !== undefined) {
+      this.#handleServerRequest(message).catch(() => {
+        // The server closed stdin before the reply could be written
+      })
+      return
+    }
+
+    // Server notification
+    if ('method' in message) {
+      this.dispatchNotification(message.method, message.params)
+      return
+    }
+
+    if (message.id !== undefined) {
       const pending = this.#pendingRequests.get(message.id)
       if (pending) {
         if (pending.timer) {
@@ -395,6 +774,5 @@ export class LspClient {
         }
       }
     }
-    // Notifications and server requests are ignored for now
   }
 }
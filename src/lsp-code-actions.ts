@@ -0,0 +1,368 @@
+#!/usr/bin/env bun
+/**
+ * List or apply code actions (quick fixes, refactorings, source actions) for a position or range
+ *
+ * Lists the available actions by default. With `--diff` or `--apply`, the action
+ * selected by `--kind` and/or `--title` is previewed as a unified diff or written to disk.
+ *
+ * Usage: bun lsp-code-actions.ts <file> <line> <character> [options]
+ *        bun lsp-code-actions.ts <file> <startLine:startChar-endLine:endChar> [options]
+ *        bun lsp-code-actions.ts <file> --symbol <name> [options]
+ *        bun lsp-code-actions.ts <file:line:col> [options]
+ *
+ * Options:
+ *   --kind <kind>    Only actions of this kind or a sub-kind (e.g. quickfix, source.organizeImports)
+ *   --title <text>   Only actions whose title contains this text
+ *   --diff           Print the changes of the selected action as a unified diff
+ *   --apply          Write the changes of the selected action
+ *   --timeout <ms>   Maximum time to wait for diagnostics (default: 10000)
+ *   --format <fmt>   Format of the action list: json (default), jsonl or text
+ *   --max-results <n>, --max-chars <n>  Truncate the action list and summarize the rest per kind
+ */
+
+import { relative } from 'node:path'
+import { parseArgs } from 'node:util'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  getLanguageId,
+  getPositionBase,
+  POSITION_OPTIONS,
+  POSITION_USAGE,
+  type PositionBase,
+  type PositionTarget,
+  parsePositionArgs,
+  type Range,
+  resolveTargetPosition,
+  toLspPosition,
+} from './lsp-utils.ts'
+import { OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+import {
+  applyFileChanges,
+  createUnifiedDiff,
+  mergeWorkspaceEdits,
+  planWorkspaceEdit,
+  type WorkspaceEdit,
+} from './workspace-edit.ts'
+
+type Diagnostic = {
+  range: Range
+  message: string
+}
+
+type Command = {
+  title: string
+  command: string
+  arguments?: unknown[]
+}
+
+type CodeAction = {
+  title: string
+  kind?: string
+  isPreferred?: boolean
+  diagnostics?: Diagnostic[]
+  disabled?: { reason: string }
+  edit?: WorkspaceEdit
+  command?: Command
+}
+
+/** Range given on the command line, converted to 0-based positions */
+type RangeTarget = { filePath: string; range: Range; base: PositionBase }
+
+type CodeActionEntry = {
+  title: string
+  kind?: string
+  isPreferred?: true
+  /** Messages of the diagnostics the action fixes */
+  diagnostics?: string[]
+  disabled?: string
+}
+
+/** Kinds requested when no `--kind` is given; source actions are only returned when asked for */
+const ALL_KINDS = ['quickfix', 'refactor', 'source']
+
+/** Time without new diagnostics before results count as settled */
+const QUIET_PERIOD = 500
+
+/**
+ * Parse a `startLine:startChar-endLine:endChar` range
+ */
+export const parseRangeArgument = (value: string): Range | undefined => {
+  const match = value.match(/^(\d+):(\d+)-(\d+):(\d+)$/)
+  if (!match) return undefined
+
+  return {
+    start: { line: Number(match[1]), character: Number(match[2]) },
+    end: { line: Number(match[3]), character: Number(match[4]) },
+  }
+}
+
+/**
+ * Parse the command's target: a file with a `startLine:startChar-endLine:endChar` range, or a
+ * position as taken by the other position-based commands, which selects the empty range there
+ *
+ * @remarks
+ * Range positions follow `--one-based` / `--zero-based` like line and character do; the
+ * returned range is 0-based.
+ *
+ * @returns `undefined` when arguments are missing, malformed or out of range
+ */
+export const parseCodeActionArgs = (
+  positionals: string[],
+  flags: { symbol?: string; 'one-based'?: boolean; 'zero-based'?: boolean } = {},
+): PositionTarget | RangeTarget | undefined => {
+  const [filePath = '', value = '', ...rest] = positionals
+  const range = rest.length || flags.symbol ? undefined : parseRangeArgument(value)
+  if (!range) return parsePositionArgs(positionals, flags)
+
+  const base = getPositionBase(flags)
+  if (base === undefined) return undefined
+  const start = toLspPosition(range.start, base)
+  const end = toLspPosition(range.end, base)
+  return start && end ? { filePath, range: { start, end }, base } : undefined
+}
+
+/**
+ * Check a code action kind against a hierarchical kind filter
+ *
+ * @remarks
+ * `source.organizeImports` matches `source.organizeImports` and `source.organizeImports.ts`,
+ * but not `source.organizeImportsX`.
+ */
+export const matchesKind = (actionKind: string | undefined, kind: string): boolean =>
+  actionKind !== undefined && (actionKind === kind || actionKind.startsWith(`${kind}.`))
+
+const overlaps = (a: Range, b: Range): boolean =>
+  !(
+    a.end.line < b.start.line ||
+    (a.end.line === b.start.line && a.end.character < b.start.character) ||
+    b.end.line < a.start.line ||
+    (b.end.line === a.start.line && b.end.character < a.start.character)
+  )
+
+/**
+ * Servers may answer with bare commands instead of code action literals
+ */
+const toCodeAction = (item: CodeAction | Command): CodeAction =>
+  typeof item.command === 'string' ? { title: item.title, command: item as Command } : (item as CodeAction)
+
+const toEntry = (action: CodeAction): CodeActionEntry => {
+  const entry: CodeActionEntry = { title: action.title }
+  if (action.kind) entry.kind = action.kind
+  if (action.isPreferred) entry.isPreferred = true
+  if (action.diagnostics?.length) entry.diagnostics = action.diagnostics.map((diagnostic) => diagnostic.message)
+  if (action.disabled) entry.disabled = action.disabled.reason
+  return entry
+}
+
+/**
+ * Render one `title [kind]` line per action
+ */
+const formatActions = (entries: CodeActionEntry[]): string => {
+  if (!entries.length) return 'No code actions'
+
+  return entries
+    .map((entry) => {
+      const preferred = entry.isPreferred ? ' (preferred)' : ''
+      const disabled = entry.disabled ? ` (disabled: ${entry.disabled})` : ''
+      return `${entry.title} [${entry.kind ?? 'no kind'}]${preferred}${disabled}`
+    })
+    .join('\n')
+}
+
+/**
+ * Pick a single action to apply from the filtered candidates
+ *
+ * @throws When no action or several equally good actions match
+ */
+const selectAction = (actions: CodeAction[], title?: string): CodeAction => {
+  const enabled = actions.filter((action) => !action.disabled)
+  if (enabled.length === 0) {
+    throw new Error('No code action matches the given --kind/--title')
+  }
+  if (enabled.length === 1) return enabled[0]!
+
+  const exact = enabled.filter((action) => action.title.toLowerCase() === title?.toLowerCase())
+  if (exact.length === 1) return exact[0]!
+
+  const preferred = enabled.filter((action) => action.isPreferred)
+  if (preferred.length === 1) return preferred[0]!
+
+  const titles = enabled.map((action) => `  - ${action.title} (${action.kind ?? 'no kind'})`).join('\n')
+  throw new Error(`Several code actions match, narrow with --title or --kind:\n${titles}`)
+}
+
+/**
+ * List or apply code actions at a position or range
+ *
+ * @param args - Command line arguments [file, position or range]
+ */
+export const lspCodeActions = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      kind: { type: 'string' },
+      title: { type: 'string' },
+      diff: { type: 'boolean', default: false },
+      apply: { type: 'boolean', default: false },
+      timeout: { type: 'string', default: '10000' },
+      ...POSITION_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    },
+    allowPositionals: true,
+  })
+
+  const target = parseCodeActionArgs(positionals, values)
+
+  if (!target) {
+    console.error('Usage: lsp-code-actions <file> <line> <character> [--kind=K] [--title=T] [--diff|--apply]')
+    console.error('       lsp-code-actions <file> <startLine:startChar-endLine:endChar> [options]')
+    console.error('       lsp-code-actions <file> --symbol <name> [options]')
+    console.error('       lsp-code-actions <file:line:col> [options]')
+    console.error(POSITION_USAGE.join('\n'))
+    console.error('  startLine:startChar-endLine:endChar: Range to act on, numbered like line and character')
+    console.error('  --kind: Only actions of this kind, e.g. quickfix, refactor.extract, source.organizeImports')
+    console.error('  --title: Only actions whose title contains this text')
+    console.error('  --diff / --apply: Preview or write the changes of the selected action')
+    console.error(OUTPUT_USAGE.join('\n'))
+    process.exit(1)
+  }
+
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  const timeout = Number(values.timeout)
+  if (!Number.isInteger(timeout) || timeout <= 0) {
+    console.error('Error: --timeout must be a positive number of milliseconds')
+    process.exit(1)
+  }
+
+  const selecting = values.diff || values.apply
+  if (selecting && !values.kind && !values.title) {
+    console.error('Error: --diff and --apply need --kind and/or --title to select an action')
+    process.exit(1)
+  }
+
+  const absolutePath = await resolveFilePath(target.filePath)
+  const uri = `file://${absolutePath}`
+  const rootUri = `file://${process.cwd()}`
+
+  const client = await createLspClient({ rootUri })
+
+  // Quick fixes are computed from the diagnostics passed in the request context
+  const kind = values.kind
+  const needsDiagnostics = !kind || matchesKind(kind, 'quickfix')
+  let diagnostics: Diagnostic[] | undefined
+  let lastUpdate = Date.now()
+  const unsubscribe = client.onNotification('textDocument/publishDiagnostics', (params) => {
+    const published = params as { uri: string; diagnostics: Diagnostic[] }
+    if (published.uri !== uri) return
+    diagnostics = published.diagnostics
+    lastUpdate = Date.now()
+  })
+
+  try {
+    await client.start()
+
+    const file = Bun.file(absolutePath)
+    if (!(await file.exists())) {
+      console.error(`Error: File not found: ${absolutePath}`)
+      process.exit(1)
+    }
+
+    client.openDocument(uri, getLanguageId(absolutePath), 1, await file.text())
+    await client.waitForProject(uri)
+
+    let range: Range
+    if ('range' in target) {
+      range = target.range
+    } else {
+      const position = await resolveTargetPosition(client, uri, target)
+      range = { start: position, end: position }
+    }
+
+    if (needsDiagnostics) {
+      const deadline = Date.now() + timeout
+      while (Date.now() < deadline && (!diagnostics || Date.now() - lastUpdate < QUIET_PERIOD)) {
+        await Bun.sleep(50)
+      }
+    }
+    unsubscribe()
+
+    const context = {
+      diagnostics: (diagnostics ?? []).filter((diagnostic) => overlaps(diagnostic.range, range)),
+      only: kind ? [kind] : ALL_KINDS,
+    }
+    const items = ((await client.codeAction(uri, range, context)) as Array<CodeAction | Command> | null) ?? []
+    const title = values.title?.toLowerCase()
+    const actions = items
+      .map(toCodeAction)
+      .filter((action) => !kind || matchesKind(action.kind, kind))
+      .filter((action) => !title || action.title.toLowerCase().includes(title))
+
+    if (!selecting) {
+      client.closeDocument(uri)
+      await client.stop()
+      await printResult(
+        actions.map(toEntry),
+        { ...outputOptions, base: target.base },
+        {
+          text: formatActions,
+          hint: 'Filter with --kind or --title',
+        },
+      )
+      return
+    }
+
+    const action = selectAction(actions, values.title)
+
+    // Actions without an edit (e.g. refactorings) deliver it through workspace/applyEdit
+    const edits: WorkspaceEdit[] = action.edit ? [action.edit] : []
+    if (!action.edit && action.command) {
+      const removeHandler = client.onRequest('workspace/applyEdit', (params) => {
+        edits.push((params as { edit: WorkspaceEdit }).edit)
+        return { applied: true }
+      })
+      try {
+        await client.executeCommand(action.command.command, action.command.arguments)
+      } finally {
+        removeHandler()
+      }
+    }
+
+    const changes = await planWorkspaceEdit(mergeWorkspaceEdits(edits))
+
+    client.closeDocument(uri)
+    await client.stop()
+
+    const diff = changes
+      .map((change) => createUnifiedDiff(change.path, change.before, change.after))
+      .filter(Boolean)
+      .join('\n')
+
+    if (!diff) {
+      console.log(`No changes: ${action.title}`)
+      return
+    }
+
+    console.log(diff)
+
+    if (values.apply) {
+      await applyFileChanges(changes)
+      const files = changes.map((change) => relative(process.cwd(), change.path))
+      console.log(`\nApplied "${action.title}" to ${files.length} file(s): ${files.join(', ')}`)
+    }
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await lspCodeActions(Bun.argv.slice(2))
+}
@@ -0,0 +1,291 @@
+#!/usr/bin/env bun
+/**
+ * List ranked completion items at a cursor position
+ *
+ * Items are filtered by a prefix (by default the partial identifier before the cursor),
+ * ranked, and resolved through `completionItem/resolve` so they include detail,
+ * documentation and the import edits of auto-import suggestions.
+ *
+ * Usage: bun lsp-complete.ts <file> <line> <character> [options]
+ *        bun lsp-complete.ts <file> --symbol <name> [options]
+ *        bun lsp-complete.ts <file:line:col> [options]
+ *
+ * Options:
+ *   --prefix <text>  Filter items by this prefix instead of the word before the cursor
+ *   --limit <n>      Maximum number of items to return and resolve (default: 50)
+ *   --format <fmt>   json (default), jsonl (one item per line) or text
+ *   --max-results <n>, --max-chars <n>  Truncate the output and summarize the rest per kind
+ */
+
+import { parseArgs } from 'node:util'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  getLanguageId,
+  POSITION_OPTIONS,
+  POSITION_USAGE,
+  parsePositionArgs,
+  type Range,
+  resolveTargetPosition,
+} from './lsp-utils.ts'
+import { OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+
+type MarkupContent = { kind: string; value: string }
+
+type CompletionItem = {
+  label: string
+  kind?: number
+  detail?: string
+  documentation?: string | MarkupContent
+  sortText?: string
+  filterText?: string
+  insertText?: string
+  preselect?: boolean
+  labelDetails?: { detail?: string; description?: string }
+  additionalTextEdits?: Array<{ range: Range; newText: string }>
+  data?: unknown
+}
+
+type CompletionList = {
+  isIncomplete: boolean
+  items: CompletionItem[]
+}
+
+type CompletionEntry = {
+  label: string
+  kind: string
+  detail?: string
+  documentation?: string
+  insertText?: string
+  /** Module an auto-import suggestion comes from */
+  source?: string
+  /** Edits applied along with the completion, e.g. the import of an auto-import */
+  additionalTextEdits?: Array<{ range: Range; newText: string }>
+}
+
+type CompleteResult = {
+  prefix: string
+  /** Items matching the prefix, before `--limit` */
+  total: number
+  /** Set when the server reports that typing further may produce different items */
+  isIncomplete?: true
+  items: CompletionEntry[]
+}
+
+/**
+ * LSP CompletionItemKind names
+ */
+const completionItemKindNames: Record<number, string> = {
+  1: 'Text',
+  2: 'Method',
+  3: 'Function',
+  4: 'Constructor',
+  5: 'Field',
+  6: 'Variable',
+  7: 'Class',
+  8: 'Interface',
+  9: 'Module',
+  10: 'Property',
+  11: 'Unit',
+  12: 'Value',
+  13: 'Enum',
+  14: 'Keyword',
+  15: 'Snippet',
+  16: 'Color',
+  17: 'File',
+  18: 'Reference',
+  19: 'Folder',
+  20: 'EnumMember',
+  21: 'Constant',
+  22: 'Struct',
+  23: 'Event',
+  24: 'Operator',
+  25: 'TypeParameter',
+}
+
+/**
+ * Score how well an item matches the prefix; lower is better
+ *
+ * @returns 0 for a case-sensitive prefix match, 1 case-insensitive, 2 for a
+ * case-insensitive substring match, or `undefined` when the item does not match
+ */
+const matchScore = (item: CompletionItem, prefix: string): number | undefined => {
+  if (!prefix) return 0
+  const text = item.filterText ?? item.label
+  if (text.startsWith(prefix)) return 0
+  const lowerText = text.toLowerCase()
+  const lowerPrefix = prefix.toLowerCase()
+  if (lowerText.startsWith(lowerPrefix)) return 1
+  if (lowerText.includes(lowerPrefix)) return 2
+  return undefined
+}
+
+/**
+ * Filter completion items by prefix and rank them
+ *
+ * @remarks
+ * Ranks by match quality first, then preselected items, then the server's `sortText`
+ * (which puts locals before globals and auto-imports), then label.
+ */
+export const rankCompletionItems = <T extends CompletionItem>(items: T[], prefix: string): T[] =>
+  items
+    .flatMap((item) => {
+      const score = matchScore(item, prefix)
+      return score === undefined ? [] : [{ item, score }]
+    })
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        Number(Boolean(b.item.preselect)) - Number(Boolean(a.item.preselect)) ||
+        (a.item.sortText ?? a.item.label).localeCompare(b.item.sortText ?? b.item.label) ||
+        a.item.label.localeCompare(b.item.label),
+    )
+    .map(({ item }) => item)
+
+/**
+ * Module specifier of an auto-import, as stored by typescript-language-server in resolved item data
+ */
+const getAutoImportSource = (data: unknown): string | undefined => {
+  const entryNames = (data as { entryNames?: Array<string | { source?: string }> } | undefined)?.entryNames
+  const entry = entryNames?.[0]
+  return typeof entry === 'object' ? entry.source : undefined
+}
+
+const toEntry = (item: CompletionItem): CompletionEntry => {
+  const entry: CompletionEntry = {
+    label: item.label,
+    kind: completionItemKindNames[item.kind ?? 1] ?? 'Unknown',
+  }
+  if (item.detail) entry.detail = item.detail
+  const documentation = typeof item.documentation === 'string' ? item.documentation : item.documentation?.value
+  if (documentation) entry.documentation = documentation
+  if (item.insertText && item.insertText !== item.label) entry.insertText = item.insertText
+  const source = item.labelDetails?.description ?? getAutoImportSource(item.data)
+  if (source) entry.source = source
+  if (item.additionalTextEdits?.length) entry.additionalTextEdits = item.additionalTextEdits
+  return entry
+}
+
+/**
+ * Render one `label [Kind]  detail  (from source)` line per item
+ */
+const formatCompletions = (result: CompleteResult): string => {
+  const header = `${result.items.length} of ${result.total} item(s) matching "${result.prefix}"${result.isIncomplete ? ' (incomplete)' : ''}`
+  const lines = result.items.map((item) => {
+    const detail = item.detail ? `  ${item.detail.split('\n')[0]}` : ''
+    const source = item.source ? `  (from ${item.source})` : ''
+    return `${item.label} [${item.kind}]${detail}${source}`
+  })
+  return [header, ...lines].join('\n')
+}
+
+/**
+ * List completion items at a cursor position
+ *
+ * @param args - Command line arguments [file, line, character]
+ */
+export const lspComplete = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      prefix: { type: 'string' },
+      limit: { type: 'string', default: '50' },
+      ...POSITION_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    },
+    allowPositionals: true,
+  })
+
+  const target = parsePositionArgs(positionals, values)
+
+  if (!target) {
+    console.error(
+      'Usage: lsp-complete <file> <line> <character> [--prefix=text] [--limit=N] [--format=json|jsonl|text]',
+    )
+    console.error('       lsp-complete <file> --symbol <name>')
+    console.error('       lsp-complete <file:line:col>')
+    console.error(POSITION_USAGE.join('\n'))
+    console.error(OUTPUT_USAGE.join('\n'))
+    process.exit(1)
+  }
+
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  const limit = Number(values.limit)
+  if (!Number.isInteger(limit) || limit < 1) {
+    console.error('Error: --limit must be a positive number')
+    process.exit(1)
+  }
+
+  const absolutePath = await resolveFilePath(target.filePath)
+  const uri = `file://${absolutePath}`
+  const rootUri = `file://${process.cwd()}`
+
+  const client = await createLspClient({ rootUri })
+
+  try {
+    await client.start()
+
+    const file = Bun.file(absolutePath)
+    if (!(await file.exists())) {
+      console.error(`Error: File not found: ${absolutePath}`)
+      process.exit(1)
+    }
+
+    const text = await file.text()
+    client.openDocument(uri, getLanguageId(absolutePath), 1, text)
+
+    const { line, character } = await resolveTargetPosition(client, uri, target)
+
+    // Default to the partial identifier typed before the cursor
+    const prefix =
+      values.prefix ??
+      text
+        .split('\n')
+        [line]?.slice(0, character)
+        .match(/[\w$]*$/)?.[0] ??
+      ''
+
+    const completion = (await client.completion(uri, line, character)) as CompletionList | CompletionItem[] | null
+    const list: CompletionList = Array.isArray(completion)
+      ? { isIncomplete: false, items: completion }
+      : (completion ?? { isIncomplete: false, items: [] })
+
+    const ranked = rankCompletionItems(list.items, prefix)
+    const items: CompletionEntry[] = []
+    for (const item of ranked.slice(0, limit)) {
+      const resolved = ((await client.resolveCompletionItem(item)) as CompletionItem | null) ?? item
+      items.push(toEntry({ ...item, ...resolved }))
+    }
+
+    client.closeDocument(uri)
+    await client.stop()
+
+    const result: CompleteResult = { prefix, total: ranked.length, items }
+    if (list.isIncomplete) result.isIncomplete = true
+
+    await printResult(
+      result,
+      { ...outputOptions, base: target.base },
+      {
+        text: formatCompletions,
+        records: (output) => output.items,
+        withRecords: (output, items) => ({ ...output, items: items as CompletionEntry[] }),
+        hint: 'Type more of the name, or filter with --prefix',
+      },
+    )
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await lspComplete(Bun.argv.slice(2))
+}
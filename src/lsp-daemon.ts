@@ -0,0 +1,781 @@
+#!/usr/bin/env bun
+/**
+ * Persistent LSP daemon that keeps typescript-language-server warm between commands
+ *
+ * @remarks
+ * The daemon listens on a local Unix socket and owns one long-lived {@link LspClient}
+ * per workspace root. lsp-* commands obtain their client through {@link createLspClient},
+ * which routes requests to the daemon when it is running and falls back to spawning
+ * a fresh server otherwise. The daemon shuts itself down after an idle timeout.
+ *
+ * Messages on the socket are newline-delimited JSON.
+ *
+ * Usage: bun lsp-daemon.ts <start|stop|status|run> [options]
+ */
+
+import { chmod, lstat, mkdir, unlink } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { parseArgs } from 'node:util'
+import type { Socket, UnixSocketListener } from 'bun'
+import { LspClient, type ServerRequestAnswer } from './lsp-client.ts'
+
+/** Default idle timeout before the daemon exits (15 minutes) */
+const DEFAULT_IDLE_TIMEOUT = 15 * 60 * 1000
+
+/** How long `daemon start` waits for the socket to come up */
+const STARTUP_TIMEOUT = 10000
+
+type DaemonMessage =
+  | { id: number; type: 'attach'; rootUri: string }
+  | { id: number; type: 'request'; rootUri: string; method: string; params?: unknown }
+  | { type: 'notify'; rootUri: string; method: string; params?: unknown }
+  | { id: number; type: 'status' }
+  | { id: number; type: 'shutdown' }
+
+/**
+ * Answer from a connection to a forwarded server request
+ */
+type DaemonServerResponse = { type: 'serverResponse'; requestId: number } & ServerRequestAnswer
+
+type DaemonReply = {
+  id: number
+  result?: unknown
+  error?: string
+}
+
+/**
+ * Server notification forwarded to every connection attached to the workspace
+ */
+type DaemonNotification = {
+  type: 'notification'
+  rootUri: string
+  method: string
+  params?: unknown
+}
+
+/**
+ * Server request forwarded to the connection whose command triggered it
+ */
+type DaemonServerRequest = {
+  type: 'serverRequest'
+  requestId: number
+  rootUri: string
+  method: string
+  params?: unknown
+}
+
+type DaemonStatus = {
+  pid: number
+  socketPath: string
+  uptime: number
+  idleTimeout: number
+  workspaces: Array<{ rootUri: string; openDocuments: number }>
+}
+
+type Workspace = {
+  client: Promise<LspClient>
+  /** Open documents keyed by URI, with reference counts across connections */
+  documents: Map<string, { count: number; version: number }>
+  /** Connections with a `workspace/executeCommand` in flight, most recent last */
+  executing: Socket<ConnectionState>[]
+}
+
+type ConnectionState = {
+  buffer: string
+  pendingWrite: string
+  /** Documents opened through this connection, keyed by `rootUri\nuri` */
+  documents: Set<string>
+  /** Workspaces this connection receives notifications for */
+  rootUris: Set<string>
+  /** Forwarded server requests awaiting an answer from this connection */
+  serverRequests: Map<number, (answer: ServerRequestAnswer) => void>
+}
+
+/**
+ * Server requests forwarded to the command that triggered them instead of being
+ * answered by the daemon, e.g. the edits of a code action command
+ */
+const FORWARDED_SERVER_REQUESTS = ['workspace/applyEdit']
+
+/**
+ * Default socket path for the current user
+ *
+ * @remarks
+ * The socket lives in a per-user directory that the daemon creates with mode 0700.
+ */
+export const getDaemonSocketPath = (): string => {
+  const uid = process.getuid?.() ?? 'user'
+  return join(tmpdir(), `development-skills-lsp-${uid}`, 'daemon.sock')
+}
+
+/**
+ * Check that a daemon socket exists and belongs to the current user
+ *
+ * @remarks
+ * Other local users could otherwise put a socket in place and receive the queries.
+ * The `lstat` is also a cheap way to skip connecting when no daemon was ever started.
+ */
+const isOwnSocket = async (socketPath: string): Promise<boolean> => {
+  const stats = await lstat(socketPath).catch(() => null)
+  if (!stats?.isSocket()) return false
+  const uid = process.getuid?.()
+  return uid === undefined || stats.uid === uid
+}
+
+/**
+ * Write a newline-delimited JSON message, buffering whatever the socket does not accept
+ */
+const writeMessage = (socket: Socket<ConnectionState>, message: unknown): void => {
+  const state = socket.data
+  state.pendingWrite += `${JSON.stringify(message)}\n`
+  flushWrites(socket)
+}
+
+const flushWrites = (socket: Socket<ConnectionState>): void => {
+  const state = socket.data
+  if (!state.pendingWrite) return
+  const written = socket.write(state.pendingWrite)
+  state.pendingWrite = written < 0 ? state.pendingWrite : state.pendingWrite.slice(written)
+}
+
+/**
+ * Split buffered socket data into complete JSON lines
+ */
+const takeLines = (state: { buffer: string }, chunk: string): string[] => {
+  state.buffer += chunk
+  const lines = state.buffer.split('\n')
+  state.buffer = lines.pop() ?? ''
+  return lines.filter((line) => line.trim())
+}
+
+/**
+ * Start the daemon server on a Unix socket
+ *
+ * @remarks
+ * Returns once the socket is listening. The returned `closed` promise resolves after
+ * the daemon has shut down, either through a `shutdown` message, the idle timeout,
+ * or an explicit call to `stop()`. Throws when another daemon already answers on the
+ * socket; a socket nothing answers on is removed as stale.
+ */
+export const startDaemonServer = async ({
+  socketPath = getDaemonSocketPath(),
+  idleTimeout = DEFAULT_IDLE_TIMEOUT,
+}: {
+  socketPath?: string
+  idleTimeout?: number
+} = {}) => {
+  const workspaces = new Map<string, Workspace>()
+  const connections = new Set<Socket<ConnectionState>>()
+  const startedAt = Date.now()
+  let idleTimer: ReturnType<typeof setTimeout> | undefined
+  // Messages still being handled; the idle timer stays paused while any are
+  let inFlight = 0
+  let serverRequestId = 0
+  let listener: UnixSocketListener<ConnectionState> | undefined
+  let resolveClosed: () => void = () => {}
+  const closed = new Promise<void>((resolve) => {
+    resolveClosed = resolve
+  })
+
+  const resetIdleTimer = () => {
+    if (idleTimer) clearTimeout(idleTimer)
+    idleTimer = inFlight > 0 ? undefined : setTimeout(() => void stop(), idleTimeout)
+  }
+
+  const getWorkspace = (rootUri: string): Workspace => {
+    const existing = workspaces.get(rootUri)
+    if (existing) return existing
+
+    const client = new LspClient({ rootUri })
+    client.onNotification('*', (params, method) => {
+      const notification: DaemonNotification = { type: 'notification', rootUri, method, params }
+      for (const socket of connections) {
+        if (socket.data.rootUris.has(rootUri)) writeMessage(socket, notification)
+      }
+    })
+    const workspace: Workspace = {
+      client: client.start().then(() => client),
+      documents: new Map(),
+      executing: [],
+    }
+    for (const method of FORWARDED_SERVER_REQUESTS) {
+      client.onRequest(method, (params) => forwardServerRequest(workspace, rootUri, method, params))
+    }
+    workspace.client.catch(() => workspaces.delete(rootUri))
+    workspaces.set(rootUri, workspace)
+    return workspace
+  }
+
+  const forwardServerRequest = async (workspace: Workspace, rootUri: string, method: string, params: unknown) => {
+    const socket = workspace.executing.at(-1)
+    if (!socket) {
+      throw new Error(`No command is waiting for ${method}`)
+    }
+
+    serverRequestId += 1
+    const requestId = serverRequestId
+    const answer = await new Promise<ServerRequestAnswer>((resolve) => {
+      socket.data.serverRequests.set(requestId, resolve)
+      writeMessage(socket, { type: 'serverRequest', requestId, rootUri, method, params } satisfies DaemonServerRequest)
+    })
+
+    if (answer.error) {
+      throw new Error(answer.error.message)
+    }
+    return answer.result
+  }
+
+  const openDocument = async (state: ConnectionState, rootUri: string, params: unknown) => {
+    const workspace = getWorkspace(rootUri)
+    const client = await workspace.client
+    const { textDocument } = params as { textDocument: { uri: string; text: string } }
+    const key = `${rootUri}\n${textDocument.uri}`
+    const document = workspace.documents.get(textDocument.uri)
+
+    if (!document) {
+      workspace.documents.set(textDocument.uri, { count: 1, version: 1 })
+      state.documents.add(key)
+      client.notify('textDocument/didOpen', { textDocument: { ...textDocument, version: 1 } })
+      return
+    }
+
+    // Already open: refresh contents instead of re-opening
+    if (!state.documents.has(key)) {
+      document.count += 1
+      state.documents.add(key)
+    }
+    document.version += 1
+    client.notify('textDocument/didChange', {
+      textDocument: { uri: textDocument.uri, version: document.version },
+      contentChanges: [{ text: textDocument.text }],
+    })
+  }
+
+  const closeDocument = async (state: ConnectionState, rootUri: string, uri: string) => {
+    const key = `${rootUri}\n${uri}`
+    if (!state.documents.delete(key)) return
+
+    const workspace = workspaces.get(rootUri)
+    const document = workspace?.documents.get(uri)
+    if (!workspace || !document) return
+
+    document.count -= 1
+    if (document.count > 0) return
+
+    workspace.documents.delete(uri)
+    const client = await workspace.client
+    client.notify('textDocument/didClose', { textDocument: { uri } })
+  }
+
+  const getStatus = (): DaemonStatus => ({
+    pid: process.pid,
+    socketPath,
+    uptime: Date.now() - startedAt,
+    idleTimeout,
+    workspaces: [...workspaces.entries()].map(([rootUri, workspace]) => ({
+      rootUri,
+      openDocuments: workspace.documents.size,
+    })),
+  })
+
+  const handleMessage = async (socket: Socket<ConnectionState>, message: DaemonMessage) => {
+    switch (message.type) {
+      case 'attach': {
+        socket.data.rootUris.add(message.rootUri)
+        const client = await getWorkspace(message.rootUri).client
+        return { capabilities: client.serverCapabilities }
+      }
+      case 'request': {
+        const workspace = getWorkspace(message.rootUri)
+        const client = await workspace.client
+        if (message.method !== 'workspace/executeCommand') {
+          return client.request(message.method, message.params)
+        }
+
+        workspace.executing.push(socket)
+        try {
+          return await client.request(message.method, message.params)
+        } finally {
+          workspace.executing.splice(workspace.executing.indexOf(socket), 1)
+        }
+      }
+      case 'notify': {
+        if (message.method === 'textDocument/didOpen') {
+          await openDocument(socket.data, message.rootUri, message.params)
+        } else if (message.method === 'textDocument/didClose') {
+          const { textDocument } = message.params as { textDocument: { uri: string } }
+          await closeDocument(socket.data, message.rootUri, textDocument.uri)
+        } else {
+          const client = await getWorkspace(message.rootUri).client
+          client.notify(message.method, message.params)
+        }
+        return null
+      }
+      case 'status':
+        return getStatus()
+      case 'shutdown':
+        setTimeout(() => void stop(), 0)
+        return null
+    }
+  }
+
+  const stop = async () => {
+    if (!listener) return
+    if (idleTimer) clearTimeout(idleTimer)
+    listener.stop(true)
+    listener = undefined
+
+    await Promise.all(
+      [...workspaces.values()].map(async (workspace) => {
+        try {
+          const client = await workspace.client
+          await client.stop()
+        } catch {
+          // Ignore workspaces that failed to start
+        }
+      }),
+    )
+    workspaces.clear()
+    await unlink(socketPath).catch(() => {})
+    resolveClosed()
+  }
+
+  await mkdir(dirname(socketPath), { recursive: true, mode: 0o700 })
+  if (await getDaemonStatus(socketPath)) {
+    throw new Error(`LSP daemon already running on ${socketPath}`)
+  }
+  // Nothing answers, so the socket is stale: left behind by a daemon that did not exit cleanly
+  await unlink(socketPath).catch(() => {})
+
+  listener = Bun.listen<ConnectionState>({
+    unix: socketPath,
+    socket: {
+      open(socket) {
+        socket.data = {
+          buffer: '',
+          pendingWrite: '',
+          documents: new Set(),
+          rootUris: new Set(),
+          serverRequests: new Map(),
+        }
+        connections.add(socket)
+        resetIdleTimer()
+      },
+      data(socket, data) {
+        resetIdleTimer()
+        for (const line of takeLines(socket.data, data.toString())) {
+          let message: DaemonMessage | DaemonServerResponse
+          try {
+            message = JSON.parse(line) as DaemonMessage | DaemonServerResponse
+          } catch {
+            continue
+          }
+
+          if (message.type === 'serverResponse') {
+            const { requestId, ...answer } = message
+            socket.data.serverRequests.get(requestId)?.(answer)
+            socket.data.serverRequests.delete(requestId)
+            continue
+          }
+
+          inFlight += 1
+          resetIdleTimer()
+          handleMessage(socket, message)
+            .then(
+              (result) => {
+                if ('id' in message) writeMessage(socket, { id: message.id, result } satisfies DaemonReply)
+              },
+              (error) => {
+                if (!('id' in message)) return
+                const reply: DaemonReply = {
+                  id: message.id,
+                  error: error instanceof Error ? error.message : String(error),
+                }
+                writeMessage(socket, reply)
+              },
+            )
+            .finally(() => {
+              inFlight -= 1
+              if (listener) resetIdleTimer()
+            })
+        }
+      },
+      drain(socket) {
+        flushWrites(socket)
+      },
+      close(socket) {
+        connections.delete(socket)
+        for (const resolve of socket.data.serverRequests.values()) {
+          // -32603: JSON-RPC internal error
+          resolve({ error: { code: -32603, message: 'Connection closed' } })
+        }
+        socket.data.serverRequests.clear()
+        for (const workspace of workspaces.values()) {
+          workspace.executing = workspace.executing.filter((executing) => executing !== socket)
+        }
+        // Release documents the disconnected command left open
+        for (const key of [...socket.data.documents]) {
+          const [rootUri = '', uri = ''] = key.split('\n')
+          void closeDocument(socket.data, rootUri, uri)
+        }
+      },
+    },
+  })
+
+  // Only the owner may connect: the daemon opens files and runs queries as its user
+  await chmod(socketPath, 0o600)
+
+  resetIdleTimer()
+
+  return { socketPath, closed, stop, getStatus }
+}
+
+/**
+ * LSP client that forwards requests to a running daemon instead of owning a server process
+ *
+ * @remarks
+ * Shares the {@link LspClient} surface, so commands use it transparently.
+ * Stopping this client only disconnects; the daemon keeps the server warm.
+ * Server notifications are forwarded, so `onNotification` works as usual.
+ * Server requests are answered by the daemon's own client, except `workspace/applyEdit`
+ * during `workspace/executeCommand`, which is forwarded so `onRequest` receives the edit.
+ */
+export class DaemonLspClient extends LspClient {
+  #socket: Socket<{ buffer: string }> | null = null
+  #socketPath: string
+  #rootUri: string
+  #requestId = 0
+  #requestTimeout: number
+  #serverCapabilities: Record<string, unknown> = {}
+  #pending = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (error: Error) => void; timer: ReturnType<typeof setTimeout> }
+  >()
+
+  constructor({
+    rootUri,
+    socketPath = getDaemonSocketPath(),
+    requestTimeout = 30000,
+  }: {
+    rootUri: string
+    socketPath?: string
+    requestTimeout?: number
+  }) {
+    super({ rootUri, requestTimeout })
+    this.#rootUri = rootUri
+    this.#socketPath = socketPath
+    this.#requestTimeout = requestTimeout
+  }
+
+  /**
+   * Connect to the daemon and make sure it has a server for this workspace
+   */
+  override async start(): Promise<void> {
+    if (this.#socket) {
+      throw new Error('LSP server already running')
+    }
+    if (!(await isOwnSocket(this.#socketPath))) {
+      throw new Error(`No LSP daemon socket of the current user at ${this.#socketPath}`)
+    }
+
+    this.#socket = await Bun.connect<{ buffer: string }>({
+      unix: this.#socketPath,
+      socket: {
+        open(socket) {
+          socket.data = { buffer: '' }
+        },
+        data: (socket, data) => {
+          for (const line of takeLines(socket.data, data.toString())) {
+            try {
+              const message = JSON.parse(line) as DaemonReply | DaemonNotification | DaemonServerRequest
+              if (!('type' in message)) {
+                this.#handleReply(message)
+              } else if (message.type === 'serverRequest') {
+                void this.#answerServerRequest(message)
+              } else {
+                this.dispatchNotification(message.method, message.params)
+              }
+            } catch {
+              // Skip invalid JSON
+            }
+          }
+        },
+        close: () => {
+          this.#socket = null
+          for (const [id, pending] of this.#pending) {
+            clearTimeout(pending.timer)
+            pending.reject(new Error('LSP daemon connection closed'))
+            this.#pending.delete(id)
+          }
+        },
+      },
+    })
+
+    const { capabilities } = (await this.#call({ type: 'attach', rootUri: this.#rootUri })) as {
+      capabilities: Record<string, unknown>
+    }
+    this.#serverCapabilities = capabilities
+  }
+
+  /**
+   * Disconnect from the daemon, leaving its server running
+   */
+  override async stop(): Promise<void> {
+    if (!this.#socket) return
+    this.#socket.end()
+    this.#socket = null
+  }
+
+  override get serverCapabilities(): Record<string, unknown> {
+    return this.#serverCapabilities
+  }
+
+  override isRunning(): boolean {
+    return this.#socket !== null
+  }
+
+  override async request<T = unknown>(method: string, params: unknown): Promise<T> {
+    if (!this.#socket) {
+      throw new Error('LSP server not running')
+    }
+    return this.#call({ type: 'request', rootUri: this.#rootUri, method, params }) as Promise<T>
+  }
+
+  override notify(method: string, params?: unknown): void {
+    if (!this.#socket) {
+      throw new Error('LSP server not running')
+    }
+    this.#socket.write(`${JSON.stringify({ type: 'notify', rootUri: this.#rootUri, method, params })}\n`)
+  }
+
+  #call(message: Record<string, unknown>): Promise<unknown> {
+    const socket = this.#socket
+    if (!socket) {
+      return Promise.reject(new Error('LSP server not running'))
+    }
+
+    this.#requestId += 1
+    const id = this.#requestId
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.#pending.delete(id)
+        reject(new Error(`LSP daemon request timeout: ${String(message.method ?? message.type)} (id=${id})`))
+      }, this.#requestTimeout)
+
+      this.#pending.set(id, { resolve, reject, timer })
+      socket.write(`${JSON.stringify({ ...message, id })}\n`)
+    })
+  }
+
+  async #answerServerRequest(message: DaemonServerRequest): Promise<void> {
+    const answer = await this.answerServerRequest(message.method, message.params)
+    const response: DaemonServerResponse = { type: 'serverResponse', requestId: message.requestId, ...answer }
+    this.#socket?.write(`${JSON.stringify(response)}\n`)
+  }
+
+  #handleReply(reply: DaemonReply): void {
+    const pending = this.#pending.get(reply.id)
+    if (!pending) return
+
+    clearTimeout(pending.timer)
+    this.#pending.delete(reply.id)
+    if (reply.error !== undefined) {
+      pending.reject(new Error(reply.error))
+    } else {
+      pending.resolve(reply.result)
+    }
+  }
+}
+
+/**
+ * Send a single control message to the daemon and wait for its reply
+ *
+ * @returns The reply, or `null` when no daemon of the current user is listening
+ */
+const sendControlMessage = async (
+  message: { type: 'status' } | { type: 'shutdown' },
+  socketPath: string,
+): Promise<DaemonReply | null> => {
+  if (!(await isOwnSocket(socketPath))) return null
+
+  const { promise, resolve } = Promise.withResolvers<DaemonReply | null>()
+
+  try {
+    await Bun.connect<{ buffer: string }>({
+      unix: socketPath,
+      socket: {
+        open(socket) {
+          socket.data = { buffer: '' }
+          socket.write(`${JSON.stringify({ ...message, id: 1 })}\n`)
+        },
+        data(socket, data) {
+          const [line] = takeLines(socket.data, data.toString())
+          if (!line) return
+          try {
+            resolve(JSON.parse(line) as DaemonReply)
+          } catch {
+            resolve(null)
+          }
+          socket.end()
+        },
+        close() {
+          resolve(null)
+        },
+        connectError() {
+          resolve(null)
+        },
+      },
+    })
+  } catch {
+    return null
+  }
+
+  return promise
+}
+
+/**
+ * Get the status of the running daemon
+ *
+ * @returns Daemon status, or `null` when no daemon is running
+ */
+export const getDaemonStatus = async (socketPath = getDaemonSocketPath()): Promise<DaemonStatus | null> => {
+  const reply = await sendControlMessage({ type: 'status' }, socketPath)
+  return (reply?.result as DaemonStatus | undefined) ?? null
+}
+
+/**
+ * Create an LSP client, preferring the daemon when one is running
+ *
+ * @remarks
+ * The returned client has not been started yet; callers still call `start()` and `stop()`.
+ */
+export const createLspClient = async ({
+  rootUri,
+  socketPath = getDaemonSocketPath(),
+}: {
+  rootUri: string
+  socketPath?: string
+}): Promise<LspClient> => {
+  // getDaemonStatus only connects when a socket of the current user exists
+  const status = await getDaemonStatus(socketPath)
+  return status ? new DaemonLspClient({ rootUri, socketPath }) : new LspClient({ rootUri })
+}
+
+/**
+ * Manage the persistent LSP daemon
+ *
+ * @param args - Command line arguments [start|stop|status|run]
+ */
+export const lspDaemon = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      'idle-timeout': { type: 'string' },
+      socket: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+    allowPositionals: true,
+  })
+
+  const [action] = positionals
+
+  if (values.help || !action) {
+    console.log(`
+LSP Daemon - Keep typescript-language-server warm between lsp-* commands
+
+Usage: daemon <start|stop|status> [options]
+
+Actions:
+  start     Start the daemon in the background
+  stop      Stop the running daemon
+  status    Show daemon status and warm workspaces
+  run       Run the daemon in the foreground
+
+Options:
+  --idle-timeout <seconds>  Exit after this many idle seconds (default: ${DEFAULT_IDLE_TIMEOUT / 1000})
+  --socket <path>           Socket path (default: ${getDaemonSocketPath()})
+  --help, -h                Show this help
+`)
+    process.exit(0)
+  }
+
+  const socketPath = values.socket ?? getDaemonSocketPath()
+  const idleTimeoutSeconds = values['idle-timeout'] ? parseInt(values['idle-timeout'], 10) : undefined
+
+  if (idleTimeoutSeconds !== undefined && (Number.isNaN(idleTimeoutSeconds) || idleTimeoutSeconds <= 0)) {
+    console.error('Error: --idle-timeout must be a positive number of seconds')
+    process.exit(1)
+  }
+
+  switch (action) {
+    case 'run': {
+      const server = await startDaemonServer({
+        socketPath,
+        idleTimeout: idleTimeoutSeconds ? idleTimeoutSeconds * 1000 : undefined,
+      }).catch((error: Error) => {
+        console.error(`Error: ${error.message}`)
+        process.exit(1)
+      })
+      const shutdown = () => void server.stop()
+      process.on('SIGINT', shutdown)
+      process.on('SIGTERM', shutdown)
+      await server.closed
+      process.exit(0)
+      break
+    }
+    case 'start': {
+      const running = await getDaemonStatus(socketPath)
+      if (running) {
+        console.log(JSON.stringify({ status: 'running', ...running }, null, 2))
+        return
+      }
+
+      const command = [process.execPath, import.meta.path, 'run', '--socket', socketPath]
+      if (idleTimeoutSeconds) command.push('--idle-timeout', String(idleTimeoutSeconds))
+
+      const child = Bun.spawn(command, {
+        cwd: process.cwd(),
+        stdio: ['ignore', 'ignore', 'ignore'],
+        detached: true,
+      })
+      child.unref()
+
+      const deadline = Date.now() + STARTUP_TIMEOUT
+      while (Date.now() < deadline) {
+        const status = await getDaemonStatus(socketPath)
+        if (status) {
+          console.log(JSON.stringify({ status: 'started', ...status }, null, 2))
+          return
+        }
+        await Bun.sleep(100)
+      }
+
+      console.error(`Error: LSP daemon did not start within ${STARTUP_TIMEOUT / 1000}s`)
+      process.exit(1)
+      break
+    }
+    case 'stop': {
+      const reply = await sendControlMessage({ type: 'shutdown' }, socketPath)
+      console.log(JSON.stringify({ status: reply ? 'stopped' : 'not running', socketPath }, null, 2))
+      break
+    }
+    case 'status': {
+      const status = await getDaemonStatus(socketPath)
+      console.log(
+        JSON.stringify(status ? { status: 'running', ...status } : { status: 'not running', socketPath }, null, 2),
+      )
+      break
+    }
+    default:
+      console.error(`Error: Unknown daemon action: ${action}`)
+      console.error('Expected one of: start, stop, status, run')
+      process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await lspDaemon(Bun.argv.slice(2))
+}
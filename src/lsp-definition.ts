@@ -0,0 +1,191 @@
+#!/usr/bin/env bun
+/**
+ * Jump to the definition (or type definition) of the symbol at a position
+ *
+ * Resolves `Location` and `LocationLink` results and prints each target file
+ * with a snippet of its source. Targets in `node_modules` declaration files are flagged.
+ *
+ * Usage: bun lsp-definition.ts <file> <line> <character> [--declaration] [--type]
+ *        bun lsp-definition.ts <file> --symbol <name> [--declaration] [--type]
+ *        bun lsp-definition.ts <file:line:col> [--declaration] [--type]
+ */
+
+import { parseArgs } from 'node:util'
+import type { LspClient } from './lsp-client.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  getLanguageId,
+  isNodeModulesDeclaration,
+  normalizeLocations,
+  POSITION_OPTIONS,
+  POSITION_USAGE,
+  parsePositionArgs,
+  type Range,
+  readLines,
+  resolveTargetPosition,
+  toWorkspacePath,
+  uriToPath,
+} from './lsp-utils.ts'
+import { OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+
+type DefinitionKind = 'definition' | 'typeDefinition' | 'declaration'
+
+type DefinitionTarget = {
+  file: string
+  uri: string
+  range: Range
+  /** True when the target is a `.d.ts` file inside `node_modules` */
+  external: boolean
+  snippet: string
+}
+
+/** Maximum number of lines shown for a target declaration */
+const MAX_SNIPPET_LINES = 10
+
+const queries: Record<
+  DefinitionKind,
+  (client: LspClient, uri: string, line: number, char: number) => Promise<unknown>
+> = {
+  definition: (client, uri, line, char) => client.definition(uri, line, char),
+  typeDefinition: (client, uri, line, char) => client.typeDefinition(uri, line, char),
+  declaration: (client, uri, line, char) => client.declaration(uri, line, char),
+}
+
+/**
+ * Render targets as `file:line:char` headers followed by their indented snippets
+ */
+const formatTargets = (targets: DefinitionTarget[]): string => {
+  if (!targets.length) return 'No definition found'
+
+  return targets
+    .map(({ file, range, external, snippet }) => {
+      const header = `${file}:${range.start.line}:${range.start.character}${external ? ' (external)' : ''}`
+      const body = snippet
+        .split('\n')
+        .map((line) => `  ${line}`)
+        .join('\n')
+      return `${header}\n${body}`
+    })
+    .join('\n\n')
+}
+
+/**
+ * Run a definition-style query and print the resolved targets
+ */
+const runDefinitionQuery = async ({
+  args,
+  command,
+  kind: defaultKind,
+}: {
+  args: string[]
+  command: string
+  kind: DefinitionKind
+}) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      declaration: { type: 'boolean' },
+      ...POSITION_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    },
+    allowPositionals: true,
+  })
+
+  const target = parsePositionArgs(positionals, values)
+
+  if (!target) {
+    console.error(`Usage: ${command} <file> <line> <character>`)
+    console.error(`       ${command} <file> --symbol <name>`)
+    console.error(`       ${command} <file:line:col>`)
+    console.error(POSITION_USAGE.join('\n'))
+    if (command === 'lsp-definition') {
+      console.error('  --declaration: Go to the declaration instead of the definition')
+    }
+    console.error(OUTPUT_USAGE.join('\n'))
+    process.exit(1)
+  }
+
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  const kind: DefinitionKind = values.declaration ? 'declaration' : defaultKind
+  const absolutePath = await resolveFilePath(target.filePath)
+  const uri = `file://${absolutePath}`
+  const rootUri = `file://${process.cwd()}`
+
+  const client = await createLspClient({ rootUri })
+
+  try {
+    await client.start()
+
+    const file = Bun.file(absolutePath)
+    if (!(await file.exists())) {
+      console.error(`Error: File not found: ${absolutePath}`)
+      process.exit(1)
+    }
+
+    client.openDocument(uri, getLanguageId(absolutePath), 1, await file.text())
+    await client.waitForProject(uri)
+
+    const { line, character } = await resolveTargetPosition(client, uri, target)
+    const result = await queries[kind](client, uri, line, character)
+
+    client.closeDocument(uri)
+    await client.stop()
+
+    const targets: DefinitionTarget[] = []
+    for (const location of normalizeLocations(result)) {
+      const targetPath = uriToPath(location.uri)
+      const extent = location.targetRange ?? location.range
+      const lastLine = Math.min(extent.end.line, extent.start.line + MAX_SNIPPET_LINES - 1)
+      const lines = await readLines(targetPath, extent.start.line, lastLine)
+      if (lastLine < extent.end.line) lines.push('...')
+
+      targets.push({
+        file: toWorkspacePath(targetPath),
+        uri: location.uri,
+        range: location.range,
+        external: isNodeModulesDeclaration(targetPath),
+        snippet: lines.join('\n'),
+      })
+    }
+
+    await printResult(targets, { ...outputOptions, base: target.base }, { text: formatTargets })
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+/**
+ * Go to the definition of the symbol at a cursor position
+ *
+ * @param args - Command line arguments [file, line, character]
+ */
+export const lspDefinition = async (args: string[]) => {
+  await runDefinitionQuery({ args, command: 'lsp-definition', kind: 'definition' })
+}
+
+/**
+ * Go to the definition of the type of the symbol at a cursor position
+ *
+ * @param args - Command line arguments [file, line, character]
+ */
+export const lspTypeDefinition = async (args: string[]) => {
+  await runDefinitionQuery({ args, command: 'lsp-type-definition', kind: 'typeDefinition' })
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  const args = Bun.argv.slice(2)
+  if (args.includes('--type')) {
+    await lspTypeDefinition(args.filter((arg) => arg !== '--type'))
+  } else {
+    await lspDefinition(args)
+  }
+}
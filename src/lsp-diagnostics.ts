@@ -0,0 +1,265 @@
+#!/usr/bin/env bun
+/**
+ * Report TypeScript errors and warnings for files or the whole project
+ *
+ * Opens each file in the language server, waits until `textDocument/publishDiagnostics`
+ * settles, and prints structured diagnostics. Exits non-zero when errors exist or a
+ * file was never checked, so it can act as a fast scoped type-check gate.
+ *
+ * Usage: bun lsp-diagnostics.ts [file|glob...] [options]
+ *
+ * Options:
+ *   --severity <list>   Only report these severities (error,warning,information,hint)
+ *   --timeout <ms>      Maximum time to wait for diagnostics (default: 60000)
+ *   --format <format>   json (default), jsonl (one diagnostic per line) or text
+ *   --max-results <n>   Show at most n diagnostics, summarizing the rest per file
+ *   --max-chars <n>     Show as many diagnostics as fit in n characters
+ *   --one-based         Print 1-based positions, as tsc does
+ */
+
+import { parseArgs } from 'node:util'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  expandFilePatterns,
+  getLanguageId,
+  getPositionBase,
+  POSITION_BASE_OPTIONS,
+  type Range,
+  SOURCE_FILE_PATTERN,
+  toWorkspacePath,
+  uriToPath,
+} from './lsp-utils.ts'
+import { OUTPUT_OPTIONS, parseOutputOptions, printResult } from './output-format.ts'
+
+type Diagnostic = {
+  range: Range
+  severity?: number
+  code?: number | string
+  source?: string
+  message: string
+}
+
+type Severity = 'error' | 'warning' | 'information' | 'hint'
+
+type DiagnosticEntry = {
+  file: string
+  range: Range
+  severity: Severity
+  code?: number | string
+  source?: string
+  message: string
+}
+
+type DiagnosticsResult = {
+  files: number
+  summary: Record<Severity, number>
+  diagnostics: DiagnosticEntry[]
+  /** Files the server did not report on before the timeout */
+  timedOut?: string[]
+}
+
+const severityNames: Record<number, Severity> = {
+  1: 'error',
+  2: 'warning',
+  3: 'information',
+  4: 'hint',
+}
+
+const SEVERITIES: Severity[] = ['error', 'warning', 'information', 'hint']
+
+/** Time without new diagnostics before results count as settled */
+const QUIET_PERIOD = 500
+
+/**
+ * Render diagnostics as `file:line:char severity code: message` lines followed by a summary
+ */
+const formatDiagnostics = (result: DiagnosticsResult): string => {
+  const lines = result.diagnostics.map(({ file, range, severity, code, message }) => {
+    const codeLabel = code === undefined ? '' : typeof code === 'number' ? ` TS${code}` : ` ${code}`
+    const text = message.split('\n').join('\n    ')
+    return `${file}:${range.start.line}:${range.start.character} ${severity}${codeLabel}: ${text}`
+  })
+
+  const { error, warning, information, hint } = result.summary
+  lines.push(`${error} error(s), ${warning} warning(s), ${information + hint} other(s) in ${result.files} file(s)`)
+  if (result.timedOut) {
+    lines.push(`No diagnostics received before the timeout for: ${result.timedOut.join(', ')}`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Report diagnostics for TypeScript/JavaScript files
+ *
+ * @param args - Command line arguments [file|glob...]
+ */
+export const lspDiagnostics = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      severity: { type: 'string' },
+      timeout: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      ...OUTPUT_OPTIONS,
+      ...POSITION_BASE_OPTIONS,
+    },
+    allowPositionals: true,
+  })
+
+  if (values.help) {
+    console.log(`
+LSP Diagnostics - Report TypeScript errors and warnings
+
+Usage: lsp-diagnostics [file|glob...] [options]
+
+With no files, checks every source file under the current directory that git does not ignore.
+
+Options:
+  --severity <list>   Only report these severities (error,warning,information,hint)
+  --timeout <ms>      Maximum time to wait for diagnostics (default: 60000)
+  --format <format>   json (default), jsonl (one diagnostic per line) or text
+  --max-results <n>   Show at most n diagnostics, summarizing the rest per file
+  --max-chars <n>     Show as many diagnostics as fit in n characters
+  --one-based         Print 1-based positions, as tsc does
+  --help, -h          Show this help
+
+Exit code is 1 when any errors are found, and 2 when no diagnostics arrived for
+some file before the timeout, so it was not checked.
+
+Examples:
+  lsp-diagnostics src/app.ts
+  lsp-diagnostics 'src/**/*.ts' --severity=error
+  lsp-diagnostics --format=text --one-based
+`)
+    process.exit(0)
+  }
+
+  const severities = values.severity
+    ? values.severity.split(',').map((severity) => severity.trim().toLowerCase())
+    : SEVERITIES
+  const invalidSeverity = severities.find((severity) => !SEVERITIES.includes(severity as Severity))
+  if (invalidSeverity) {
+    console.error(`Error: Invalid severity "${invalidSeverity}". Must be one of: ${SEVERITIES.join(', ')}`)
+    process.exit(1)
+  }
+
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  const base = getPositionBase(values)
+  if (base === undefined) {
+    console.error('Error: --one-based and --zero-based cannot be combined')
+    process.exit(1)
+  }
+
+  const timeout = values.timeout ? parseInt(values.timeout, 10) : 60000
+  if (Number.isNaN(timeout) || timeout <= 0) {
+    console.error('Error: --timeout must be a positive number of milliseconds')
+    process.exit(1)
+  }
+
+  const files = await expandFilePatterns(positionals.length ? positionals : [SOURCE_FILE_PATTERN])
+  if (files.length === 0) {
+    console.error('Error: No files matched')
+    process.exit(1)
+  }
+
+  const rootUri = `file://${process.cwd()}`
+  const client = await createLspClient({ rootUri })
+
+  // Latest diagnostics per file path, as published by the server
+  const published = new Map<string, Diagnostic[]>()
+  let lastUpdate = Date.now()
+
+  const unsubscribe = client.onNotification('textDocument/publishDiagnostics', (params) => {
+    const { uri, diagnostics } = params as { uri: string; diagnostics: Diagnostic[] }
+    published.set(uriToPath(uri), diagnostics)
+    lastUpdate = Date.now()
+  })
+
+  try {
+    await client.start()
+
+    for (const path of files) {
+      const file = Bun.file(path)
+      if (!(await file.exists())) {
+        console.error(`Error: File not found: ${path}`)
+        await client.stop()
+        process.exit(1)
+      }
+      client.openDocument(`file://${path}`, getLanguageId(path), 1, await file.text())
+    }
+
+    // Wait until every file has reported and no new diagnostics arrived for a while
+    const deadline = Date.now() + timeout
+    while (Date.now() < deadline) {
+      const allReported = files.every((path) => published.has(path))
+      if (allReported && Date.now() - lastUpdate >= QUIET_PERIOD) break
+      await Bun.sleep(50)
+    }
+
+    // Closing a document clears its diagnostics, so stop listening first
+    unsubscribe()
+    for (const path of files) {
+      client.closeDocument(`file://${path}`)
+    }
+    await client.stop()
+
+    const all: DiagnosticEntry[] = files.flatMap((path) =>
+      (published.get(path) ?? []).map((diagnostic) => ({
+        file: toWorkspacePath(path),
+        range: diagnostic.range,
+        severity: severityNames[diagnostic.severity ?? 1] ?? 'error',
+        code: diagnostic.code,
+        source: diagnostic.source,
+        message: diagnostic.message,
+      })),
+    )
+
+    const summary: Record<Severity, number> = { error: 0, warning: 0, information: 0, hint: 0 }
+    for (const entry of all) {
+      summary[entry.severity] += 1
+    }
+
+    const result: DiagnosticsResult = {
+      files: files.length,
+      summary,
+      diagnostics: all.filter((entry) => severities.includes(entry.severity)),
+    }
+
+    const timedOut = files.filter((path) => !published.has(path))
+    if (timedOut.length) {
+      result.timedOut = timedOut.map((path) => toWorkspacePath(path))
+    }
+
+    await printResult(
+      result,
+      { ...outputOptions, base },
+      {
+        text: formatDiagnostics,
+        withRecords: (output, diagnostics) => ({ ...output, diagnostics: diagnostics as DiagnosticEntry[] }),
+        hint: 'Check fewer files, or filter with --severity=error',
+        records: (output) => output.diagnostics,
+      },
+    )
+
+    if (summary.error > 0) {
+      process.exit(1)
+    }
+    if (result.timedOut) {
+      process.exit(2)
+    }
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await lspDiagnostics(Bun.argv.slice(2))
+}
@@ -2,27 +2,239 @@
 /**
  * Search for symbols across the workspace by name
  *
- * Usage: bun lsp-find.ts <query> [file]
+ * Results are deduplicated and ranked: exact matches first, case-sensitive before
+ * case-insensitive, then prefix and substring matches, then the server's fuzzy matches.
+ *
+ * Usage: bun lsp-find.ts <query> [file] [options]
+ *
+ * Options:
+ *   --kind <list>             Only these symbol kinds, e.g. class,function,interface
+ *   --container <name>        Only members of this class, interface, namespace or other container
+ *   --in <glob>               Only symbols in files matching the glob
+ *   --exclude-node-modules    Leave out symbols from dependencies
+ *   --exact                   Only symbols named exactly as the query
+ *   --context <n>             Attach n source lines, enclosing symbol and usage
+ *   --format <format>         json (default), jsonl or text
  */
 
+import { realpathSync } from 'node:fs'
 import { parseArgs } from 'node:util'
-import { LspClient } from './lsp-client.ts'
+import { Glob } from 'bun'
+import type { LspClient } from './lsp-client.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  type DocumentSymbol,
+  findDefaultContextFile,
+  findEnclosingSymbol,
+  getLanguageId,
+  getPositionBase,
+  getSymbolKindName,
+  type Location,
+  POSITION_BASE_OPTIONS,
+  POSITION_BASE_USAGE,
+  symbolKindNames,
+  toWorkspacePath,
+  uriToPath,
+} from './lsp-utils.ts'
+import { OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
+import {
+  addReferenceContext,
+  CONTEXT_OPTIONS,
+  CONTEXT_USAGE,
+  formatContextLines,
+  parseContextOption,
+  type ReferenceDetails,
+} from './reference-context.ts'
 import { resolveFilePath } from './resolve-file-path.ts'
 
 /**
- * Find a default context file when none is provided
+ * LSP `SymbolInformation` as returned by `workspace/symbol`
+ */
+type SymbolInformation = {
+  name: string
+  kind: number
+  location: Location
+  containerName?: string
+}
+
+/**
+ * Symbol with the details attached by `--context`
+ */
+type SymbolWithContext = SymbolInformation & Partial<ReferenceDetails>
+
+/**
+ * Filters of `--kind`, `--container`, `--in`, `--exclude-node-modules` and `--exact`
+ */
+export type SymbolFilters = {
+  /** `SymbolKind` values to keep */
+  kinds?: number[]
+  /** Name of the enclosing class, interface, namespace or other container */
+  container?: string
+  /** Glob matched against workspace-relative paths */
+  in?: string
+  excludeNodeModules?: boolean
+  /** Keep only names equal to this query */
+  exact?: string
+}
+
+/**
+ * Parse a comma-separated list of symbol kind names, in any case
+ *
+ * @returns The `SymbolKind` values, or an error listing the valid names
+ */
+export const parseKindFilter = (value: string): number[] | { error: string } => {
+  const byName = new Map(Object.entries(symbolKindNames).map(([kind, name]) => [name.toLowerCase(), Number(kind)]))
+  const kinds: number[] = []
+  for (const name of value.split(',').map((item) => item.trim().toLowerCase())) {
+    const kind = byName.get(name)
+    if (kind === undefined) {
+      return { error: `Invalid kind "${name}". Must be one of: ${[...byName.keys()].join(', ')}` }
+    }
+    kinds.push(kind)
+  }
+  return kinds
+}
+
+/**
+ * How well a symbol name matches the query; lower is better
+ *
+ * 0 exact, 1 exact ignoring case, 2 prefix, 3 prefix ignoring case, 4 substring ignoring
+ * case, 5 any other (fuzzy) match of the server
+ */
+export const getMatchRank = (name: string, query: string): number => {
+  const lowerName = name.toLowerCase()
+  const lowerQuery = query.toLowerCase()
+  if (name === query) return 0
+  if (lowerName === lowerQuery) return 1
+  if (name.startsWith(query)) return 2
+  if (lowerName.startsWith(lowerQuery)) return 3
+  if (lowerName.includes(lowerQuery)) return 4
+  return 5
+}
+
+/**
+ * Filter, deduplicate and rank workspace symbols
+ *
+ * @remarks
+ * Symbols with the same name, kind and location are kept once. Locations are compared
+ * with symlinks resolved, so a symbol reached through several paths is listed once, at
+ * the first of them. The sort is stable, so symbols of equal rank keep the server's order.
+ */
+export const selectSymbols = (
+  symbols: SymbolInformation[],
+  query: string,
+  filters: SymbolFilters,
+): SymbolInformation[] => {
+  const glob = filters.in ? new Glob(filters.in) : undefined
+  const seen = new Set<string>()
+  const realPaths = new Map<string, string>()
+  const getRealPath = (path: string): string => {
+    let realPath = realPaths.get(path)
+    if (realPath === undefined) {
+      try {
+        realPath = realpathSync(path)
+      } catch {
+        realPath = path
+      }
+      realPaths.set(path, realPath)
+    }
+    return realPath
+  }
+
+  return symbols
+    .filter(({ name, kind, location, containerName }) => {
+      const path = uriToPath(location.uri)
+      if (filters.kinds && !filters.kinds.includes(kind)) return false
+      if (filters.container !== undefined && containerName !== filters.container) return false
+      if (filters.exact !== undefined && name !== filters.exact) return false
+      if (filters.excludeNodeModules && path.includes('/node_modules/')) return false
+      if (glob && !glob.match(toWorkspacePath(path))) return false
+
+      const { line, character } = location.range.start
+      const key = `${name}|${kind}|${getRealPath(path)}|${line}:${character}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .map((symbol) => ({ symbol, rank: getMatchRank(symbol.name, query) }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ symbol }) => symbol)
+}
+
+/**
+ * Name of the class, interface, namespace or other symbol that directly contains a symbol
+ *
+ * @param documentSymbols - Document symbols of the symbol's file
+ */
+export const getContainerName = (
+  documentSymbols: DocumentSymbol[],
+  { name, location }: Pick<SymbolInformation, 'name' | 'location'>,
+): string | undefined => {
+  const enclosing = findEnclosingSymbol(documentSymbols, location.range.start)
+  if (!enclosing) return undefined
+  const path = enclosing.name.split('.')
+  if (enclosing.symbol.name === name) path.pop()
+  return path.at(-1)
+}
+
+/**
+ * Fill in `containerName` where the server left it out, from the document symbols of each file
  *
  * @remarks
- * Checks common TypeScript entry points in order of preference
+ * Files that are not open yet are opened for `documentSymbol` and closed again.
+ *
+ * @param openUris - Documents the caller already opened
  */
-const findDefaultContextFile = async (): Promise<string | null> => {
-  const candidates = [`${process.cwd()}/src/index.ts`, `${process.cwd()}/src/main.ts`, `${process.cwd()}/index.ts`]
-  for (const candidate of candidates) {
-    if (await Bun.file(candidate).exists()) {
-      return candidate
+const addContainerNames = async (
+  client: LspClient,
+  symbols: SymbolInformation[],
+  openUris: string[],
+): Promise<SymbolInformation[]> => {
+  const documentSymbols = new Map<string, DocumentSymbol[]>()
+  const getDocumentSymbols = async (uri: string): Promise<DocumentSymbol[]> => {
+    let result = documentSymbols.get(uri)
+    if (!result) {
+      const path = uriToPath(uri)
+      const file = Bun.file(path)
+      result = []
+      if (await file.exists()) {
+        const isOpen = openUris.includes(uri)
+        if (!isOpen) client.openDocument(uri, getLanguageId(path), 1, await file.text())
+        result = ((await client.documentSymbols(uri)) as DocumentSymbol[] | null) ?? []
+        if (!isOpen) client.closeDocument(uri)
+      }
+      documentSymbols.set(uri, result)
     }
+    return result
   }
-  return null
+
+  const completed: SymbolInformation[] = []
+  for (const symbol of symbols) {
+    if (symbol.containerName) {
+      completed.push(symbol)
+      continue
+    }
+    const containerName = getContainerName(await getDocumentSymbols(symbol.location.uri), symbol)
+    completed.push(containerName ? { ...symbol, containerName } : symbol)
+  }
+  return completed
+}
+
+/**
+ * Render one `name [Kind] file:line:char` line per symbol, followed by its source lines with `--context`
+ */
+const formatSymbols = (symbols: SymbolWithContext[] | null): string => {
+  if (!symbols?.length) return 'No symbols found'
+
+  return symbols
+    .map(({ name, kind, location, containerName, context }) => {
+      const file = toWorkspacePath(uriToPath(location.uri))
+      const { line, character } = location.range.start
+      const container = containerName ? ` (in ${containerName})` : ''
+      const heading = `${name} [${getSymbolKindName(kind)}] ${file}:${line}:${character}${container}`
+      return context ? [heading, ...formatContextLines(context, line)].join('\n') : heading
+    })
+    .join('\n')
 }
 
 /**
@@ -31,22 +243,73 @@ const findDefaultContextFile = async (): Promise<string | null> => {
  * @param args - Command line arguments [query, file?]
  */
 export const lspFind = async (args: string[]) => {
-  const { positionals } = parseArgs({
+  const { values, positionals } = parseArgs({
     args,
+    options: {
+      kind: { type: 'string' },
+      container: { type: 'string' },
+      in: { type: 'string' },
+      'exclude-node-modules': { type: 'boolean' },
+      exact: { type: 'boolean' },
+      ...CONTEXT_OPTIONS,
+      ...OUTPUT_OPTIONS,
+      ...POSITION_BASE_OPTIONS,
+    },
     allowPositionals: true,
   })
 
   const [query, filePath] = positionals
 
   if (!query) {
-    console.error('Usage: lsp-find <query> [file]')
+    console.error('Usage: lsp-find <query> [file] [options]')
     console.error('  query: Symbol name or partial name to search')
     console.error('  file: Optional file to open for project context')
+    console.error('  --kind: Only these symbol kinds, comma-separated, e.g. class,function,interface')
+    console.error('  --container: Only members of this class, interface, namespace or other container')
+    console.error('  --in: Only symbols in files matching a glob, e.g. src/lib/**')
+    console.error('  --exclude-node-modules: Leave out symbols from dependencies')
+    console.error('  --exact: Only symbols named exactly as the query')
+    console.error(CONTEXT_USAGE)
+    console.error(OUTPUT_USAGE.join('\n'))
+    console.error(POSITION_BASE_USAGE)
     process.exit(1)
   }
 
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  const base = getPositionBase(values)
+  if (base === undefined) {
+    console.error('Error: --one-based and --zero-based cannot be combined')
+    process.exit(1)
+  }
+
+  const context = parseContextOption(values.context)
+  if (typeof context === 'object') {
+    console.error(`Error: ${context.error}`)
+    process.exit(1)
+  }
+
+  const filters: SymbolFilters = {
+    container: values.container,
+    in: values.in,
+    excludeNodeModules: values['exclude-node-modules'],
+    exact: values.exact ? query : undefined,
+  }
+  if (values.kind) {
+    const kinds = parseKindFilter(values.kind)
+    if ('error' in kinds) {
+      console.error(`Error: ${kinds.error}`)
+      process.exit(1)
+    }
+    filters.kinds = kinds
+  }
+
   const rootUri = `file://${process.cwd()}`
-  const client = new LspClient({ rootUri })
+  const client = await createLspClient({ rootUri })
 
   try {
     await client.start()
@@ -71,22 +334,39 @@ export const lspFind = async (args: string[]) => {
 
     const text = await file.text()
     const uri = `file://${contextFile}`
-    const languageId = contextFile.endsWith('.tsx')
-      ? 'typescriptreact'
-      : contextFile.endsWith('.ts')
-        ? 'typescript'
-        : contextFile.endsWith('.jsx')
-          ? 'javascriptreact'
-          : 'javascript'
-
-    client.openDocument(uri, languageId, 1, text)
+    client.openDocument(uri, getLanguageId(contextFile), 1, text)
+    await client.waitForProject(uri)
 
-    const result = await client.workspaceSymbols(query)
+    let found = (await client.workspaceSymbols(query)) as SymbolInformation[] | null
+    // typescript-language-server leaves out containerName, which --container needs
+    if (found && filters.container !== undefined) {
+      found = await addContainerNames(client, found, [uri])
+    }
+    const symbols = found && selectSymbols(found, query, filters)
+    let result: SymbolWithContext[] | null = symbols
+    if (symbols && context !== undefined) {
+      const details = await addReferenceContext(
+        client,
+        symbols.map((symbol) => symbol.location),
+        { size: context, base, openUris: [uri] },
+      )
+      result = symbols.map((symbol, index) => {
+        const { usage, enclosing, context: lines } = details[index]!
+        return { ...symbol, usage, enclosing, context: lines }
+      })
+    }
 
     client.closeDocument(uri)
     await client.stop()
 
-    console.log(JSON.stringify(result, null, 2))
+    await printResult(
+      result,
+      { ...outputOptions, base },
+      {
+        text: formatSymbols,
+        hint: 'Use a longer query, --exact, --kind, --container or --in',
+      },
+    )
   } catch (error) {
     console.error(`Error: ${error}`)
     await client.stop()
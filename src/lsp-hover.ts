@@ -3,10 +3,27 @@
  * Get type information at a position in a TypeScript/JavaScript file
  *
  * Usage: bun lsp-hover.ts <file> <line> <character>
+ *        bun lsp-hover.ts <file> --symbol <name>
+ *        bun lsp-hover.ts <file:line:col>
  */
 
 import { parseArgs } from 'node:util'
-import { LspClient } from './lsp-client.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  getLanguageId,
+  POSITION_OPTIONS,
+  POSITION_USAGE,
+  parsePositionArgs,
+  resolveTargetPosition,
+} from './lsp-utils.ts'
+import {
+  formatHover,
+  type Hover,
+  OUTPUT_OPTIONS,
+  OUTPUT_USAGE,
+  parseOutputOptions,
+  printResult,
+} from './output-format.ts'
 import { resolveFilePath } from './resolve-file-path.ts'
 
 /**
@@ -15,34 +32,37 @@ import { resolveFilePath } from './resolve-file-path.ts'
  * @param args - Command line arguments [file, line, character]
  */
 export const lspHover = async (args: string[]) => {
-  const { positionals } = parseArgs({
+  const { values, positionals } = parseArgs({
     args,
+    options: {
+      ...POSITION_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    },
     allowPositionals: true,
   })
 
-  const [filePath, lineStr, charStr] = positionals
+  const target = parsePositionArgs(positionals, values)
 
-  if (!filePath || !lineStr || !charStr) {
+  if (!target) {
     console.error('Usage: lsp-hover <file> <line> <character>')
-    console.error('  file: Path to TypeScript/JavaScript file')
-    console.error('  line: Line number (0-indexed)')
-    console.error('  character: Character position (0-indexed)')
+    console.error('       lsp-hover <file> --symbol <name>')
+    console.error('       lsp-hover <file:line:col>')
+    console.error(POSITION_USAGE.join('\n'))
+    console.error(OUTPUT_USAGE.join('\n'))
     process.exit(1)
   }
 
-  const line = parseInt(lineStr, 10)
-  const character = parseInt(charStr, 10)
-
-  if (Number.isNaN(line) || Number.isNaN(character)) {
-    console.error('Error: line and character must be numbers')
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
     process.exit(1)
   }
 
-  const absolutePath = await resolveFilePath(filePath)
+  const absolutePath = await resolveFilePath(target.filePath)
   const uri = `file://${absolutePath}`
   const rootUri = `file://${process.cwd()}`
 
-  const client = new LspClient({ rootUri })
+  const client = await createLspClient({ rootUri })
 
   try {
     await client.start()
@@ -54,26 +74,16 @@ export const lspHover = async (args: string[]) => {
     }
 
     const text = await file.text()
-    const languageId = absolutePath.endsWith('.tsx')
-      ? 'typescriptreact'
-      : absolutePath.endsWith('.ts')
-        ? 'typescript'
-        : absolutePath.endsWith('.jsx')
-          ? 'javascriptreact'
-          : 'javascript'
+    client.openDocument(uri, getLanguageId(absolutePath), 1, text)
 
-    client.openDocument(uri, languageId, 1, text)
+    const { line, character } = await resolveTargetPosition(client, uri, target)
 
     const result = await client.hover(uri, line, character)
 
     client.closeDocument(uri)
     await client.stop()
 
-    if (result) {
-      console.log(JSON.stringify(result, null, 2))
-    } else {
-      console.log('null')
-    }
+    await printResult(result as Hover | null, { ...outputOptions, base: target.base }, { text: formatHover })
   } catch (error) {
     console.error(`Error: ${error}`)
     await client.stop()
@@ -0,0 +1,154 @@
+#!/usr/bin/env bun
+/**
+ * Find concrete implementations of an interface, type, or abstract member
+ *
+ * Prints each implementing class or object literal with its enclosing symbol name.
+ *
+ * Usage: bun lsp-implementations.ts <file> <line> <character>
+ *        bun lsp-implementations.ts <file> --symbol <name>
+ *        bun lsp-implementations.ts <file:line:col>
+ */
+
+import { parseArgs } from 'node:util'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  type DocumentSymbol,
+  findEnclosingSymbol,
+  getLanguageId,
+  normalizeLocations,
+  POSITION_OPTIONS,
+  POSITION_USAGE,
+  parsePositionArgs,
+  type Range,
+  readLines,
+  resolveTargetPosition,
+  toWorkspacePath,
+  uriToPath,
+} from './lsp-utils.ts'
+import { OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+
+type Implementation = {
+  file: string
+  uri: string
+  range: Range
+  /** Dotted name of the innermost symbol containing the implementation */
+  symbol?: string
+  kind?: string
+  line: string
+}
+
+/**
+ * Render one `file:line:char  Symbol [Kind]` line per implementation, followed by its source line
+ */
+const formatImplementations = (implementations: Implementation[]): string => {
+  if (!implementations.length) return 'No implementations found'
+
+  return implementations
+    .map(({ file, range, symbol, kind, line }) => {
+      const owner = symbol ? `  ${symbol} [${kind}]` : ''
+      return `${file}:${range.start.line}:${range.start.character}${owner}\n  ${line}`
+    })
+    .join('\n')
+}
+
+/**
+ * Find implementations of the symbol at a cursor position
+ *
+ * @param args - Command line arguments [file, line, character]
+ */
+export const lspImplementations = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      ...POSITION_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    },
+    allowPositionals: true,
+  })
+
+  const target = parsePositionArgs(positionals, values)
+
+  if (!target) {
+    console.error('Usage: lsp-impl <file> <line> <character>')
+    console.error('       lsp-impl <file> --symbol <name>')
+    console.error('       lsp-impl <file:line:col>')
+    console.error(POSITION_USAGE.join('\n'))
+    console.error(OUTPUT_USAGE.join('\n'))
+    process.exit(1)
+  }
+
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  const absolutePath = await resolveFilePath(target.filePath)
+  const uri = `file://${absolutePath}`
+  const rootUri = `file://${process.cwd()}`
+
+  const client = await createLspClient({ rootUri })
+
+  try {
+    await client.start()
+
+    const file = Bun.file(absolutePath)
+    if (!(await file.exists())) {
+      console.error(`Error: File not found: ${absolutePath}`)
+      process.exit(1)
+    }
+
+    client.openDocument(uri, getLanguageId(absolutePath), 1, await file.text())
+    await client.waitForProject(uri)
+
+    const { line, character } = await resolveTargetPosition(client, uri, target)
+    const locations = normalizeLocations(await client.implementation(uri, line, character))
+
+    // Document symbols per target file, to name the enclosing class or object
+    const symbolsByUri = new Map<string, DocumentSymbol[]>()
+    const implementations: Implementation[] = []
+
+    for (const location of locations) {
+      const targetPath = uriToPath(location.uri)
+
+      let symbols = symbolsByUri.get(location.uri)
+      if (!symbols) {
+        const isOpen = location.uri === uri
+        const targetFile = Bun.file(targetPath)
+        if (!isOpen && (await targetFile.exists())) {
+          client.openDocument(location.uri, getLanguageId(targetPath), 1, await targetFile.text())
+        }
+        symbols = ((await client.documentSymbols(location.uri)) as DocumentSymbol[] | null) ?? []
+        if (!isOpen) client.closeDocument(location.uri)
+        symbolsByUri.set(location.uri, symbols)
+      }
+
+      const enclosing = findEnclosingSymbol(symbols, location.range.start)
+      const [sourceLine = ''] = await readLines(targetPath, location.range.start.line, location.range.start.line)
+
+      implementations.push({
+        file: toWorkspacePath(targetPath),
+        uri: location.uri,
+        range: location.range,
+        symbol: enclosing?.name,
+        kind: enclosing?.kind,
+        line: sourceLine.trim(),
+      })
+    }
+
+    client.closeDocument(uri)
+    await client.stop()
+
+    await printResult(implementations, { ...outputOptions, base: target.base }, { text: formatImplementations })
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await lspImplementations(Bun.argv.slice(2))
+}
@@ -3,10 +3,31 @@
  * Find all references to a symbol at a position
  *
  * Usage: bun lsp-references.ts <file> <line> <character>
+ *        bun lsp-references.ts <file> --symbol <name>
+ *        bun lsp-references.ts <file:line:col>
+ *
+ * With `--context=N`, each reference also gets its source line with N lines around it,
+ * the enclosing symbol and whether it reads, writes, imports or uses the symbol as a type.
  */
 
 import { parseArgs } from 'node:util'
-import { LspClient } from './lsp-client.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  getLanguageId,
+  type Location,
+  POSITION_OPTIONS,
+  POSITION_USAGE,
+  parsePositionArgs,
+  resolveTargetPosition,
+} from './lsp-utils.ts'
+import { formatLocations, OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
+import {
+  addReferenceContext,
+  CONTEXT_OPTIONS,
+  CONTEXT_USAGE,
+  formatReferences,
+  parseContextOption,
+} from './reference-context.ts'
 import { resolveFilePath } from './resolve-file-path.ts'
 
 /**
@@ -15,34 +36,45 @@ import { resolveFilePath } from './resolve-file-path.ts'
  * @param args - Command line arguments [file, line, character]
  */
 export const lspRefs = async (args: string[]) => {
-  const { positionals } = parseArgs({
+  const { values, positionals } = parseArgs({
     args,
+    options: {
+      ...POSITION_OPTIONS,
+      ...CONTEXT_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    },
     allowPositionals: true,
   })
 
-  const [filePath, lineStr, charStr] = positionals
+  const target = parsePositionArgs(positionals, values)
 
-  if (!filePath || !lineStr || !charStr) {
+  if (!target) {
     console.error('Usage: lsp-refs <file> <line> <character>')
-    console.error('  file: Path to TypeScript/JavaScript file')
-    console.error('  line: Line number (0-indexed)')
-    console.error('  character: Character position (0-indexed)')
+    console.error('       lsp-refs <file> --symbol <name>')
+    console.error('       lsp-refs <file:line:col>')
+    console.error(POSITION_USAGE.join('\n'))
+    console.error(CONTEXT_USAGE)
+    console.error(OUTPUT_USAGE.join('\n'))
     process.exit(1)
   }
 
-  const line = parseInt(lineStr, 10)
-  const character = parseInt(charStr, 10)
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
 
-  if (Number.isNaN(line) || Number.isNaN(character)) {
-    console.error('Error: line and character must be numbers')
+  const context = parseContextOption(values.context)
+  if (typeof context === 'object') {
+    console.error(`Error: ${context.error}`)
     process.exit(1)
   }
 
-  const absolutePath = await resolveFilePath(filePath)
+  const absolutePath = await resolveFilePath(target.filePath)
   const uri = `file://${absolutePath}`
   const rootUri = `file://${process.cwd()}`
 
-  const client = new LspClient({ rootUri })
+  const client = await createLspClient({ rootUri })
 
   try {
     await client.start()
@@ -54,22 +86,35 @@ export const lspRefs = async (args: string[]) => {
     }
 
     const text = await file.text()
-    const languageId = absolutePath.endsWith('.tsx')
-      ? 'typescriptreact'
-      : absolutePath.endsWith('.ts')
-        ? 'typescript'
-        : absolutePath.endsWith('.jsx')
-          ? 'javascriptreact'
-          : 'javascript'
-
-    client.openDocument(uri, languageId, 1, text)
+    client.openDocument(uri, getLanguageId(absolutePath), 1, text)
+    await client.waitForProject(uri)
+
+    const { line, character } = await resolveTargetPosition(client, uri, target)
+
+    const result = (await client.references(uri, line, character, true)) as Location[] | null
+    const hint = 'Query a more specific symbol, e.g. a method rather than its class'
+
+    if (context === undefined) {
+      client.closeDocument(uri)
+      await client.stop()
+      await printResult(
+        result,
+        { ...outputOptions, base: target.base },
+        { text: (locations) => formatLocations(locations, target.base), hint },
+      )
+      return
+    }
 
-    const result = await client.references(uri, line, character, true)
+    const references = await addReferenceContext(client, result ?? [], {
+      size: context,
+      base: target.base,
+      openUris: [uri],
+    })
 
     client.closeDocument(uri)
     await client.stop()
 
-    console.log(JSON.stringify(result, null, 2))
+    await printResult(references, { ...outputOptions, base: target.base }, { text: formatReferences, hint })
   } catch (error) {
     console.error(`Error: ${error}`)
     await client.stop()
@@ -0,0 +1,160 @@
+#!/usr/bin/env bun
+/**
+ * Rename a symbol across the workspace using the language server
+ *
+ * Prints the resulting edit as a unified diff, or with `--format=json|jsonl` as one
+ * record per file with its diff. With `--apply`, writes the changes, refusing to do so
+ * if any affected file changed after the edit was computed.
+ *
+ * Usage: bun lsp-rename.ts <file> <line> <character> <newName> [--apply] [--format=text|json|jsonl]
+ *        bun lsp-rename.ts <file> --symbol <name> <newName> [--apply]
+ *        bun lsp-rename.ts <file:line:col> <newName> [--apply]
+ */
+
+import { parseArgs } from 'node:util'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  formatPosition,
+  getLanguageId,
+  POSITION_OPTIONS,
+  POSITION_USAGE,
+  parsePositionArgs,
+  resolveTargetPosition,
+  toWorkspacePath,
+} from './lsp-utils.ts'
+import { OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+import { applyFileChanges, createUnifiedDiff, planWorkspaceEdit, type WorkspaceEdit } from './workspace-edit.ts'
+
+type RenamedFile = {
+  file: string
+  edits: number
+  diff: string
+}
+
+type RenameResult = {
+  newName: string
+  applied: boolean
+  files: RenamedFile[]
+}
+
+/**
+ * Render the unified diff of every file, followed by a summary when the rename was applied
+ */
+const formatRename = ({ applied, files }: RenameResult): string => {
+  if (!files.length) return 'No changes'
+
+  const diff = files.map((file) => file.diff).join('\n')
+  if (!applied) return diff
+
+  const edits = files.reduce((total, file) => total + file.edits, 0)
+  const names = files.map((file) => file.file)
+  return `${diff}\n\nApplied ${edits} edit(s) to ${names.length} file(s): ${names.join(', ')}`
+}
+
+/**
+ * Preview or apply the rename of the symbol at a cursor position
+ *
+ * @param args - Command line arguments [file, line, character, newName]
+ */
+export const lspRename = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      apply: { type: 'boolean', default: false },
+      ...POSITION_OPTIONS,
+      ...OUTPUT_OPTIONS,
+      // The diff is meant to be read, so text is the default here
+      format: { type: 'string', default: 'text' },
+    },
+    allowPositionals: true,
+  })
+
+  const target = parsePositionArgs(positionals, values)
+  const newName = target?.rest[0]
+
+  if (!target || !newName) {
+    console.error('Usage: lsp-rename <file> <line> <character> <newName> [--apply]')
+    console.error('       lsp-rename <file> --symbol <name> <newName> [--apply]')
+    console.error('       lsp-rename <file:line:col> <newName> [--apply]')
+    console.error(POSITION_USAGE.join('\n'))
+    console.error('  newName: New name for the symbol')
+    console.error('  --apply: Write the changes instead of printing a diff only')
+    console.error(OUTPUT_USAGE.join('\n').replace('json (default), jsonl or text', 'text (default), json or jsonl'))
+    process.exit(1)
+  }
+
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  const absolutePath = await resolveFilePath(target.filePath)
+  const uri = `file://${absolutePath}`
+  const rootUri = `file://${process.cwd()}`
+
+  const client = await createLspClient({ rootUri })
+
+  try {
+    await client.start()
+
+    const file = Bun.file(absolutePath)
+    if (!(await file.exists())) {
+      console.error(`Error: File not found: ${absolutePath}`)
+      process.exit(1)
+    }
+
+    client.openDocument(uri, getLanguageId(absolutePath), 1, await file.text())
+    await client.waitForProject(uri)
+
+    const { line, character } = await resolveTargetPosition(client, uri, target)
+    const prepared = await client.prepareRename(uri, line, character)
+    if (!prepared) {
+      client.closeDocument(uri)
+      await client.stop()
+      console.error(
+        `Error: No renameable symbol at ${target.filePath}:${formatPosition({ line, character }, target.base)}`,
+      )
+      process.exit(1)
+    }
+
+    const edit = (await client.rename(uri, line, character, newName)) as WorkspaceEdit | null
+    const changes = edit ? await planWorkspaceEdit(edit) : []
+
+    client.closeDocument(uri)
+    await client.stop()
+
+    const files = changes
+      .map((change) => ({
+        file: toWorkspacePath(change.path),
+        edits: change.edits,
+        diff: createUnifiedDiff(change.path, change.before, change.after),
+      }))
+      .filter((file) => file.diff)
+
+    const applied = values.apply && files.length > 0
+    if (applied) {
+      await applyFileChanges(changes)
+    }
+
+    await printResult(
+      { newName, applied, files } satisfies RenameResult,
+      { ...outputOptions, base: target.base },
+      {
+        text: formatRename,
+        records: (result) => result.files,
+        withRecords: (result, records) => ({ ...result, files: records as RenamedFile[] }),
+      },
+    )
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await lspRename(Bun.argv.slice(2))
+}
@@ -0,0 +1,202 @@
+#!/usr/bin/env bun
+/**
+ * Show the signatures of the call around a cursor position
+ *
+ * Lists every overload with per-parameter documentation and marks the active
+ * signature and parameter. Inside nested calls the innermost call is shown;
+ * on a callee name (e.g. `parse|Config(input)`) the call's arguments are used.
+ *
+ * Usage: bun lsp-signature.ts <file> <line> <character> [--format=json|jsonl|text]
+ *        bun lsp-signature.ts <file> --symbol <name>
+ *        bun lsp-signature.ts <file:line:col>
+ */
+
+import { parseArgs } from 'node:util'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  getLanguageId,
+  POSITION_OPTIONS,
+  POSITION_USAGE,
+  parsePositionArgs,
+  resolveTargetPosition,
+} from './lsp-utils.ts'
+import { OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+
+type MarkupContent = { kind: string; value: string }
+
+type ParameterInformation = {
+  label: string | [number, number]
+  documentation?: string | MarkupContent
+}
+
+type SignatureInformation = {
+  label: string
+  documentation?: string | MarkupContent
+  parameters?: ParameterInformation[]
+  activeParameter?: number
+}
+
+export type SignatureHelp = {
+  signatures: SignatureInformation[]
+  activeSignature?: number
+  activeParameter?: number
+}
+
+type ParameterEntry = {
+  label: string
+  documentation?: string
+  active?: true
+}
+
+type SignatureEntry = {
+  label: string
+  documentation?: string
+  parameters: ParameterEntry[]
+  active?: true
+}
+
+type SignatureResult = {
+  activeSignature: number
+  activeParameter: number
+  signatures: SignatureEntry[]
+}
+
+const toText = (documentation?: string | MarkupContent): string | undefined => {
+  const text = typeof documentation === 'string' ? documentation : documentation?.value
+  // JSDoc `@param name - description` keeps the separator in the description
+  return text?.replace(/^-\s+/, '').trim() || undefined
+}
+
+/**
+ * Normalize an LSP `SignatureHelp` into plain labels, documentation and active markers
+ *
+ * @remarks
+ * Parameter labels given as offsets into the signature label are resolved to text.
+ * A signature's own `activeParameter` takes precedence over the top-level one.
+ */
+export const formatSignatureHelp = (help: SignatureHelp): SignatureResult => {
+  const activeSignature = help.activeSignature ?? 0
+  const activeSignatureInfo = help.signatures[activeSignature]
+  const activeParameter = activeSignatureInfo?.activeParameter ?? help.activeParameter ?? 0
+
+  const signatures = help.signatures.map((signature, signatureIndex) => {
+    const isActive = signatureIndex === activeSignature
+    const active = signature.activeParameter ?? help.activeParameter ?? 0
+
+    const entry: SignatureEntry = { label: signature.label, parameters: [] }
+    const documentation = toText(signature.documentation)
+    if (documentation) entry.documentation = documentation
+    entry.parameters = (signature.parameters ?? []).map((parameter, parameterIndex) => {
+      const label = typeof parameter.label === 'string' ? parameter.label : signature.label.slice(...parameter.label)
+      const parameterEntry: ParameterEntry = { label }
+      const parameterDocumentation = toText(parameter.documentation)
+      if (parameterDocumentation) parameterEntry.documentation = parameterDocumentation
+      if (isActive && parameterIndex === active) parameterEntry.active = true
+      return parameterEntry
+    })
+    if (isActive) entry.active = true
+    return entry
+  })
+
+  return { activeSignature, activeParameter, signatures }
+}
+
+/**
+ * Render signatures one per line, `>` marking the active one, followed by the parameters
+ * of the active signature with `*` marking the active parameter
+ */
+const formatSignatures = (result: SignatureResult | null): string => {
+  if (!result) return 'No signature help'
+
+  const lines: string[] = []
+  for (const signature of result.signatures) {
+    lines.push(`${signature.active ? '>' : ' '} ${signature.label}`)
+    if (!signature.active) continue
+    if (signature.documentation) lines.push(`    ${signature.documentation.split('\n').join('\n    ')}`)
+    for (const parameter of signature.parameters) {
+      const documentation = parameter.documentation ? `  ${parameter.documentation}` : ''
+      lines.push(`    ${parameter.active ? '*' : '-'} ${parameter.label}${documentation}`)
+    }
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Print the signatures of the call at a cursor position
+ *
+ * @param args - Command line arguments [file, line, character]
+ */
+export const lspSignature = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      ...POSITION_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    },
+    allowPositionals: true,
+  })
+
+  const target = parsePositionArgs(positionals, values)
+
+  if (!target) {
+    console.error('Usage: lsp-signature <file> <line> <character> [--format=json|jsonl|text]')
+    console.error('       lsp-signature <file> --symbol <name>')
+    console.error('       lsp-signature <file:line:col>')
+    console.error(POSITION_USAGE.join('\n'))
+    console.error(OUTPUT_USAGE.join('\n'))
+    process.exit(1)
+  }
+
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  const absolutePath = await resolveFilePath(target.filePath)
+  const uri = `file://${absolutePath}`
+  const rootUri = `file://${process.cwd()}`
+
+  const client = await createLspClient({ rootUri })
+
+  try {
+    await client.start()
+
+    const file = Bun.file(absolutePath)
+    if (!(await file.exists())) {
+      console.error(`Error: File not found: ${absolutePath}`)
+      process.exit(1)
+    }
+
+    const text = await file.text()
+    client.openDocument(uri, getLanguageId(absolutePath), 1, text)
+
+    const { line, character } = await resolveTargetPosition(client, uri, target)
+    let result = (await client.signatureHelp(uri, line, character)) as SignatureHelp | null
+
+    // On a callee name, retry just inside the parenthesis that follows it
+    if (!result?.signatures.length) {
+      const rest = text.split('\n')[line]?.slice(character) ?? ''
+      const callee = rest.match(/^[\w$]*\s*(?:<[^()]*>\s*)?\(/)
+      if (callee) {
+        result = (await client.signatureHelp(uri, line, character + callee[0].length)) as SignatureHelp | null
+      }
+    }
+
+    client.closeDocument(uri)
+    await client.stop()
+
+    const signatures = result?.signatures.length ? formatSignatureHelp(result) : null
+    await printResult(signatures, { ...outputOptions, base: target.base }, { text: formatSignatures })
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await lspSignature(Bun.argv.slice(2))
+}
@@ -2,29 +2,65 @@
 /**
  * Get all symbols (functions, classes, types, etc.) in a TypeScript/JavaScript file
  *
- * Usage: bun lsp-symbols.ts <file>
+ * Usage: bun lsp-symbols.ts <file> [--format=json|jsonl|text]
  */
 
 import { parseArgs } from 'node:util'
-import { LspClient } from './lsp-client.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  type DocumentSymbol,
+  getLanguageId,
+  getPositionBase,
+  getSymbolKindName,
+  POSITION_BASE_OPTIONS,
+  POSITION_BASE_USAGE,
+} from './lsp-utils.ts'
+import { OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
 import { resolveFilePath } from './resolve-file-path.ts'
 
+/**
+ * Render symbols as an indented outline of `name [Kind] line`
+ */
+const formatOutline = (symbols: DocumentSymbol[], depth = 0): string[] =>
+  symbols.flatMap((symbol) => [
+    `${'  '.repeat(depth)}${symbol.name} [${getSymbolKindName(symbol.kind)}] ${symbol.range.start.line}`,
+    ...formatOutline(symbol.children ?? [], depth + 1),
+  ])
+
 /**
  * Get all symbols in a TypeScript/JavaScript file
  *
  * @param args - Command line arguments [file]
  */
 export const lspSymbols = async (args: string[]) => {
-  const { positionals } = parseArgs({
+  const { values, positionals } = parseArgs({
     args,
+    options: {
+      ...OUTPUT_OPTIONS,
+      ...POSITION_BASE_OPTIONS,
+    },
     allowPositionals: true,
   })
 
   const [filePath] = positionals
 
   if (!filePath) {
-    console.error('Usage: lsp-symbols <file>')
+    console.error('Usage: lsp-symbols <file> [--format=json|jsonl|text]')
     console.error('  file: Path to TypeScript/JavaScript file')
+    console.error(OUTPUT_USAGE.join('\n'))
+    console.error(POSITION_BASE_USAGE)
+    process.exit(1)
+  }
+
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  const base = getPositionBase(values)
+  if (base === undefined) {
+    console.error('Error: --one-based and --zero-based cannot be combined')
     process.exit(1)
   }
 
@@ -32,7 +68,7 @@ export const lspSymbols = async (args: string[]) => {
   const uri = `file://${absolutePath}`
   const rootUri = `file://${process.cwd()}`
 
-  const client = new LspClient({ rootUri })
+  const client = await createLspClient({ rootUri })
 
   try {
     await client.start()
@@ -44,22 +80,21 @@ export const lspSymbols = async (args: string[]) => {
     }
 
     const text = await file.text()
-    const languageId = absolutePath.endsWith('.tsx')
-      ? 'typescriptreact'
-      : absolutePath.endsWith('.ts')
-        ? 'typescript'
-        : absolutePath.endsWith('.jsx')
-          ? 'javascriptreact'
-          : 'javascript'
-
-    client.openDocument(uri, languageId, 1, text)
+    client.openDocument(uri, getLanguageId(absolutePath), 1, text)
 
     const result = await client.documentSymbols(uri)
 
     client.closeDocument(uri)
     await client.stop()
 
-    console.log(JSON.stringify(result, null, 2))
+    await printResult(
+      result as DocumentSymbol[] | null,
+      { ...outputOptions, base },
+      {
+        text: (symbols) => formatOutline(symbols ?? []).join('\n') || 'No symbols',
+        hint: 'Use lsp-analyze --exports for exported symbols only, or lsp-find for a single name',
+      },
+    )
   } catch (error) {
     console.error(`Error: ${error}`)
     await client.stop()
@@ -0,0 +1,313 @@
+#!/usr/bin/env bun
+/**
+ * Show supertypes and subtypes (extends/implements chains) of a class or interface
+ *
+ * Uses the LSP type hierarchy requests when the server supports them. Otherwise
+ * falls back to composing queries: subtypes come from `textDocument/implementation`,
+ * supertypes from definitions of the names in `extends` / `implements` clauses.
+ *
+ * Usage: bun lsp-types-tree.ts <file> <line> <character> [options]
+ *        bun lsp-types-tree.ts <file> --symbol <name> [options]
+ *        bun lsp-types-tree.ts <file:line:col> [options]
+ *
+ * Options:
+ *   --direction <super|sub|both>  Which side of the hierarchy to show (default: both)
+ *   --depth <n>                   Levels to expand (default: 3)
+ *   --format <json|jsonl|text>    JSON trees, JSON lines or indented text trees (default: json)
+ *   --max-chars <n>               Truncate output to n characters
+ */
+
+import { parseArgs } from 'node:util'
+import ts from 'typescript'
+import {
+  buildHierarchyTree,
+  formatHierarchyTree,
+  type HierarchyEdge,
+  type HierarchyItem,
+  type HierarchyNode,
+  itemKey,
+} from './hierarchy-tree.ts'
+import type { LspClient } from './lsp-client.ts'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  type DocumentSymbol,
+  findEnclosingSymbol,
+  getLanguageId,
+  normalizeLocations,
+  offsetToPosition,
+  POSITION_OPTIONS,
+  POSITION_USAGE,
+  type Position,
+  parsePositionArgs,
+  positionToOffset,
+  resolveTargetPosition,
+  uriToPath,
+} from './lsp-utils.ts'
+import { OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+
+type TypesTreeResult = {
+  /** Whether the server's type hierarchy or the composed fallback produced the trees */
+  source: 'typeHierarchy' | 'fallback'
+  supertypes?: HierarchyNode[]
+  subtypes?: HierarchyNode[]
+}
+
+type TypeHierarchyProvider = {
+  roots: HierarchyItem[]
+  supertypes: (item: HierarchyItem) => Promise<HierarchyEdge<HierarchyItem>[]>
+  subtypes: (item: HierarchyItem) => Promise<HierarchyEdge<HierarchyItem>[]>
+  dispose: () => void
+}
+
+/**
+ * Find the offsets of type names in the `extends` / `implements` clauses of a class or interface
+ *
+ * @remarks
+ * The declaration is the one whose name starts at `nameOffset`. Type arguments are skipped,
+ * so `class A<T extends B> extends C<{ x: D }>` yields only `C`. For qualified names like
+ * `ns.Base`, the offset of the last segment is returned.
+ */
+export const findHeritageNames = (sourceFile: ts.SourceFile, nameOffset: number): number[] => {
+  const find = (node: ts.Node): ts.ClassLikeDeclaration | ts.InterfaceDeclaration | undefined => {
+    if (nameOffset < node.pos || nameOffset >= node.end) return undefined
+    if ((ts.isClassLike(node) || ts.isInterfaceDeclaration(node)) && node.name?.getStart(sourceFile) === nameOffset) {
+      return node
+    }
+    return ts.forEachChild(node, find)
+  }
+
+  const declaration = ts.forEachChild(sourceFile, find)
+  return (declaration?.heritageClauses ?? []).flatMap((clause) =>
+    clause.types.map(({ expression }) =>
+      (ts.isPropertyAccessExpression(expression) ? expression.name : expression).getStart(sourceFile),
+    ),
+  )
+}
+
+/**
+ * Type hierarchy backed by the server's `typeHierarchy/*` requests
+ */
+const createServerProvider = async (client: LspClient, uri: string, position: Position) => {
+  const roots =
+    ((await client.prepareTypeHierarchy(uri, position.line, position.character)) as HierarchyItem[] | null) ?? []
+
+  const toEdges = (items: unknown) => ((items as HierarchyItem[] | null) ?? []).map((item) => ({ item }))
+
+  return {
+    roots,
+    supertypes: async (item: HierarchyItem) => toEdges(await client.supertypes(item)),
+    subtypes: async (item: HierarchyItem) => toEdges(await client.subtypes(item)),
+    dispose: () => {},
+  } satisfies TypeHierarchyProvider
+}
+
+/**
+ * Type hierarchy composed from implementation and definition queries
+ */
+const createFallbackProvider = async (client: LspClient, uri: string, position: Position) => {
+  const symbolsByUri = new Map<string, DocumentSymbol[]>()
+  const textByUri = new Map<string, string>()
+  const opened: string[] = []
+
+  const getText = async (targetUri: string): Promise<string> => {
+    let text = textByUri.get(targetUri)
+    if (text === undefined) {
+      const file = Bun.file(uriToPath(targetUri))
+      text = (await file.exists()) ? await file.text() : ''
+      textByUri.set(targetUri, text)
+    }
+    return text
+  }
+
+  const getSymbols = async (targetUri: string): Promise<DocumentSymbol[]> => {
+    let symbols = symbolsByUri.get(targetUri)
+    if (!symbols) {
+      if (targetUri !== uri) {
+        client.openDocument(targetUri, getLanguageId(targetUri), 1, await getText(targetUri))
+        opened.push(targetUri)
+      }
+      symbols = ((await client.documentSymbols(targetUri)) as DocumentSymbol[] | null) ?? []
+      symbolsByUri.set(targetUri, symbols)
+    }
+    return symbols
+  }
+
+  const resolveItem = async (targetUri: string, at: Position): Promise<HierarchyItem | undefined> => {
+    const enclosing = findEnclosingSymbol(await getSymbols(targetUri), at)
+    if (!enclosing) return undefined
+    const { symbol } = enclosing
+    return {
+      name: symbol.name,
+      kind: symbol.kind,
+      detail: symbol.detail,
+      uri: targetUri,
+      range: symbol.range,
+      selectionRange: symbol.selectionRange,
+    }
+  }
+
+  const resolveDefinitions = async (targetUri: string, at: Position): Promise<HierarchyItem[]> => {
+    const locations = normalizeLocations(await client.definition(targetUri, at.line, at.character))
+    const items: HierarchyItem[] = []
+    for (const location of locations) {
+      const item = await resolveItem(location.uri, location.range.start)
+      if (item) items.push(item)
+    }
+    return items
+  }
+
+  const unique = (item: HierarchyItem, candidates: HierarchyItem[]): HierarchyEdge<HierarchyItem>[] => {
+    const seen = new Set([itemKey(item)])
+    const edges: HierarchyEdge<HierarchyItem>[] = []
+    for (const candidate of candidates) {
+      const key = itemKey(candidate)
+      if (seen.has(key)) continue
+      seen.add(key)
+      edges.push({ item: candidate })
+    }
+    return edges
+  }
+
+  // The cursor may be on a usage; resolve it to the declaring symbol first
+  const roots = await resolveDefinitions(uri, position)
+
+  return {
+    roots,
+    supertypes: async (item: HierarchyItem) => {
+      const text = await getText(item.uri)
+      const sourceFile = ts.createSourceFile(uriToPath(item.uri), text, ts.ScriptTarget.Latest, true)
+
+      const candidates: HierarchyItem[] = []
+      for (const offset of findHeritageNames(sourceFile, positionToOffset(text, item.selectionRange.start))) {
+        candidates.push(...(await resolveDefinitions(item.uri, offsetToPosition(text, offset))))
+      }
+      return unique(item, candidates)
+    },
+    subtypes: async (item: HierarchyItem) => {
+      const { line, character } = item.selectionRange.start
+      const locations = normalizeLocations(await client.implementation(item.uri, line, character))
+      const candidates: HierarchyItem[] = []
+      for (const location of locations) {
+        const candidate = await resolveItem(location.uri, location.range.start)
+        if (candidate) candidates.push(candidate)
+      }
+      return unique(item, candidates)
+    },
+    dispose: () => {
+      for (const openedUri of opened) {
+        client.closeDocument(openedUri)
+      }
+    },
+  } satisfies TypeHierarchyProvider
+}
+
+/**
+ * Print the type hierarchy of the class or interface at a cursor position
+ *
+ * @param args - Command line arguments [file, line, character]
+ */
+export const lspTypesTree = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      direction: { type: 'string', default: 'both' },
+      depth: { type: 'string', default: '3' },
+      ...POSITION_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    },
+    allowPositionals: true,
+  })
+
+  const target = parsePositionArgs(positionals, values)
+
+  if (!target) {
+    console.error(
+      'Usage: lsp-types-tree <file> <line> <character> [--direction=super|sub|both] [--depth=N] [--format=json|jsonl|text]',
+    )
+    console.error('       lsp-types-tree <file> --symbol <name> [options]')
+    console.error('       lsp-types-tree <file:line:col> [options]')
+    console.error(POSITION_USAGE.join('\n'))
+    console.error(OUTPUT_USAGE.join('\n'))
+    process.exit(1)
+  }
+
+  const direction = values.direction
+  if (direction !== 'super' && direction !== 'sub' && direction !== 'both') {
+    console.error('Error: --direction must be "super", "sub" or "both"')
+    process.exit(1)
+  }
+
+  const depth = Number(values.depth)
+  if (!Number.isInteger(depth) || depth < 1) {
+    console.error('Error: --depth must be a positive number')
+    process.exit(1)
+  }
+
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  const absolutePath = await resolveFilePath(target.filePath)
+  const uri = `file://${absolutePath}`
+  const rootUri = `file://${process.cwd()}`
+
+  const client = await createLspClient({ rootUri })
+
+  try {
+    await client.start()
+
+    const file = Bun.file(absolutePath)
+    if (!(await file.exists())) {
+      console.error(`Error: File not found: ${absolutePath}`)
+      process.exit(1)
+    }
+
+    client.openDocument(uri, getLanguageId(absolutePath), 1, await file.text())
+    await client.waitForProject(uri)
+
+    const position = await resolveTargetPosition(client, uri, target)
+    const useServer = Boolean(client.serverCapabilities.typeHierarchyProvider)
+    const provider = useServer
+      ? await createServerProvider(client, uri, position)
+      : await createFallbackProvider(client, uri, position)
+
+    const result: TypesTreeResult = { source: useServer ? 'typeHierarchy' : 'fallback' }
+
+    if (direction !== 'sub') {
+      result.supertypes = await buildHierarchyTree({ roots: provider.roots, depth, getChildren: provider.supertypes })
+    }
+    if (direction !== 'super') {
+      result.subtypes = await buildHierarchyTree({ roots: provider.roots, depth, getChildren: provider.subtypes })
+    }
+
+    provider.dispose()
+    client.closeDocument(uri)
+    await client.stop()
+
+    await printResult(
+      result,
+      { ...outputOptions, base: target.base },
+      {
+        text: (output) => {
+          const sections: string[] = []
+          if (output.supertypes) sections.push(`Supertypes:\n${formatHierarchyTree(output.supertypes, '↑')}`)
+          if (output.subtypes) sections.push(`Subtypes:\n${formatHierarchyTree(output.subtypes, '↓')}`)
+          return sections.join('\n\n')
+        },
+        hint: 'Lower --depth, or show one side with --direction=super|sub',
+      },
+    )
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await lspTypesTree(Bun.argv.slice(2))
+}
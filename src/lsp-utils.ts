@@ -0,0 +1,545 @@
+/**
+ * Shared helpers for lsp-* commands
+ *
+ * @internal
+ */
+
+import { relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { Glob } from 'bun'
+import type { LspClient } from './lsp-client.ts'
+import { resolveFilePath } from './resolve-file-path.ts'
+
+export type Position = { line: number; character: number }
+
+export type Range = { start: Position; end: Position }
+
+/**
+ * LSP `Location`
+ */
+export type Location = { uri: string; range: Range }
+
+/**
+ * LSP `LocationLink`, returned when the client advertises `linkSupport`
+ */
+export type LocationLink = {
+  originSelectionRange?: Range
+  targetUri: string
+  targetRange: Range
+  targetSelectionRange: Range
+}
+
+/**
+ * Location with the full extent of the target declaration, when the server provided one
+ */
+export type ResolvedLocation = Location & { targetRange?: Range }
+
+/**
+ * Hierarchical LSP `DocumentSymbol`
+ */
+export type DocumentSymbol = {
+  name: string
+  detail?: string
+  kind: number
+  range: Range
+  selectionRange: Range
+  children?: DocumentSymbol[]
+}
+
+/**
+ * Names for LSP `SymbolKind` values
+ */
+export const symbolKindNames: Record<number, string> = {
+  1: 'File',
+  2: 'Module',
+  3: 'Namespace',
+  4: 'Package',
+  5: 'Class',
+  6: 'Method',
+  7: 'Property',
+  8: 'Field',
+  9: 'Constructor',
+  10: 'Enum',
+  11: 'Interface',
+  12: 'Function',
+  13: 'Variable',
+  14: 'Constant',
+  15: 'String',
+  16: 'Number',
+  17: 'Boolean',
+  18: 'Array',
+  19: 'Object',
+  20: 'Key',
+  21: 'Null',
+  22: 'EnumMember',
+  23: 'Struct',
+  24: 'Event',
+  25: 'Operator',
+  26: 'TypeParameter',
+}
+
+/**
+ * Get the display name of a `SymbolKind`
+ */
+export const getSymbolKindName = (kind: number): string => symbolKindNames[kind] || `Unknown(${kind})`
+
+/** Source files picked up when a command is given a directory-wide pattern */
+export const SOURCE_FILE_PATTERN = '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}'
+
+/**
+ * Check whether a path is a TypeScript declaration file (`.d.ts`, `.d.mts`, `.d.cts`)
+ */
+export const isDeclarationFile = (path: string): boolean => /\.d\.[mc]?ts$/.test(path)
+
+/**
+ * Get the LSP language id for a file path
+ */
+export const getLanguageId = (path: string): string =>
+  path.endsWith('.tsx')
+    ? 'typescriptreact'
+    : /\.[mc]?ts$/.test(path)
+      ? 'typescript'
+      : path.endsWith('.jsx')
+        ? 'javascriptreact'
+        : 'javascript'
+
+/**
+ * Convert a `file://` URI to an absolute path
+ *
+ * @remarks
+ * Non-file URIs are returned unchanged.
+ */
+export const uriToPath = (uri: string): string => (uri.startsWith('file://') ? fileURLToPath(uri) : uri)
+
+/**
+ * Display form of a file path: relative to the workspace root, or `pkg-name/path` inside `node_modules`
+ *
+ * @remarks
+ * The innermost `node_modules` wins, so nested and pnpm-style installs shorten to the
+ * package itself.
+ */
+export const toWorkspacePath = (path: string, root = process.cwd()): string => {
+  const index = path.lastIndexOf('/node_modules/')
+  if (index !== -1) return path.slice(index + '/node_modules/'.length)
+  return relative(root, path) || '.'
+}
+
+/**
+ * Replace every `file://` URI in a command result with its {@link toWorkspacePath} form
+ *
+ * @remarks
+ * Strings that are entire file URIs are converted wherever they appear, as are object
+ * keys, so `Location`, `LocationLink`, `SymbolInformation` and `WorkspaceEdit` (whose
+ * `changes` are keyed by URI) all come out alike. The input is not modified.
+ */
+export const withWorkspacePaths = <T>(value: T, root = process.cwd()): T => {
+  const convertUri = (uri: string): string => (uri.startsWith('file://') ? toWorkspacePath(uriToPath(uri), root) : uri)
+
+  const convert = (item: unknown): unknown => {
+    if (typeof item === 'string') return convertUri(item)
+    if (Array.isArray(item)) return item.map(convert)
+    if (!item || typeof item !== 'object') return item
+
+    return Object.fromEntries(Object.entries(item).map(([key, entry]) => [convertUri(key), convert(entry)]))
+  }
+
+  return convert(value) as T
+}
+
+/**
+ * Normalize definition-style results into a flat list of locations
+ *
+ * @remarks
+ * Accepts `null`, a single `Location`, or an array of `Location` / `LocationLink`.
+ * For links, `range` is the target selection range (the symbol name) and
+ * `targetRange` the full declaration.
+ */
+export const normalizeLocations = (result: unknown): ResolvedLocation[] => {
+  if (!result) return []
+  const items = Array.isArray(result) ? result : [result]
+
+  return items.flatMap((item: Location | LocationLink): ResolvedLocation[] => {
+    if ('targetUri' in item) {
+      return [{ uri: item.targetUri, range: item.targetSelectionRange, targetRange: item.targetRange }]
+    }
+    if ('uri' in item) {
+      return [{ uri: item.uri, range: item.range }]
+    }
+    return []
+  })
+}
+
+/**
+ * Check whether a position lies within a range (inclusive)
+ */
+export const rangeContains = (range: Range, position: Position): boolean => {
+  if (position.line < range.start.line || position.line > range.end.line) return false
+  if (position.line === range.start.line && position.character < range.start.character) return false
+  if (position.line === range.end.line && position.character > range.end.character) return false
+  return true
+}
+
+/**
+ * Convert a string offset to an LSP position
+ *
+ * @remarks
+ * LSP characters are UTF-16 code units, which matches JavaScript string indices.
+ */
+export const offsetToPosition = (text: string, offset: number): Position => {
+  const before = text.slice(0, offset)
+  const line = before.split('\n').length - 1
+  return { line, character: offset - (before.lastIndexOf('\n') + 1) }
+}
+
+/**
+ * Convert an LSP position to a string offset, clamped to the text
+ */
+export const positionToOffset = (text: string, position: Position): number => {
+  let offset = 0
+  for (let line = 0; line < position.line; line++) {
+    const next = text.indexOf('\n', offset)
+    if (next === -1) return text.length
+    offset = next + 1
+  }
+  return Math.min(offset + position.character, text.length)
+}
+
+/**
+ * Find the innermost document symbol whose range contains a position
+ *
+ * @returns The symbol with its dotted container path (e.g. `ConfigManager.load`), or
+ * `undefined` when the position is outside every symbol
+ */
+export const findEnclosingSymbol = (
+  symbols: DocumentSymbol[],
+  position: Position,
+  prefix = '',
+): { name: string; kind: string; symbol: DocumentSymbol } | undefined => {
+  for (const symbol of symbols) {
+    if (!rangeContains(symbol.range, position)) continue
+
+    const name = prefix ? `${prefix}.${symbol.name}` : symbol.name
+    const inner = symbol.children ? findEnclosingSymbol(symbol.children, position, name) : undefined
+    return inner ?? { name, kind: getSymbolKindName(symbol.kind), symbol }
+  }
+  return undefined
+}
+
+type SymbolMatch = { name: string; kind: string; symbol: DocumentSymbol }
+
+const flattenSymbols = (symbols: DocumentSymbol[], prefix = ''): SymbolMatch[] =>
+  symbols.flatMap((symbol) => {
+    const name = prefix ? `${prefix}.${symbol.name}` : symbol.name
+    return [{ name, kind: getSymbolKindName(symbol.kind), symbol }, ...flattenSymbols(symbol.children ?? [], name)]
+  })
+
+/**
+ * Find symbols by name in hierarchical document symbols
+ *
+ * @remarks
+ * `name` is either a full dotted path (`ConfigManager.load`) or a trailing part of one
+ * (`load`). Full path matches win over trailing matches. Declarations sharing a dotted
+ * name (overloads, merged declarations) count as one symbol, represented by the first.
+ */
+export const findSymbolsByName = (symbols: DocumentSymbol[], name: string): SymbolMatch[] => {
+  const all = flattenSymbols(symbols)
+  const exact = all.filter((match) => match.name === name)
+  const matches = exact.length ? exact : all.filter((match) => match.name.endsWith(`.${name}`))
+
+  const seen = new Set<string>()
+  return matches.filter((match) => {
+    if (seen.has(match.name)) return false
+    seen.add(match.name)
+    return true
+  })
+}
+
+/**
+ * Line and character numbering: 0-based as in LSP, or 1-based as printed by tsc, biome and editors
+ */
+export type PositionBase = 0 | 1
+
+/**
+ * Convert a position given in `base` numbering to a 0-based LSP position
+ *
+ * @returns `undefined` when the position is below the first line or character
+ */
+export const toLspPosition = (position: Position, base: PositionBase): Position | undefined => {
+  const line = position.line - base
+  const character = position.character - base
+  return line < 0 || character < 0 ? undefined : { line, character }
+}
+
+/**
+ * Format a 0-based LSP position as `line:char` in `base` numbering
+ */
+export const formatPosition = (position: Position, base: PositionBase): string =>
+  `${position.line + base}:${position.character + base}`
+
+/**
+ * Convert every LSP position in a command result to `base` numbering
+ *
+ * @remarks
+ * Positions are recognized as objects with numeric `line` and `character` properties,
+ * so ranges nested anywhere in the result (locations, hover ranges, hierarchy trees) are
+ * converted. The input is not modified.
+ */
+export const withPositionBase = <T>(value: T, base: PositionBase): T => {
+  if (base === 0) return value
+
+  const convert = (item: unknown): unknown => {
+    if (Array.isArray(item)) return item.map(convert)
+    if (!item || typeof item !== 'object') return item
+
+    const record = item as Record<string, unknown>
+    if (typeof record.line === 'number' && typeof record.character === 'number') {
+      return { ...record, line: record.line + base, character: record.character + base }
+    }
+    return Object.fromEntries(Object.entries(record).map(([key, entry]) => [key, convert(entry)]))
+  }
+
+  return convert(value) as T
+}
+
+/**
+ * Split an editor-style `file:line:col` argument
+ *
+ * @returns `undefined` when the argument has no trailing line and column
+ */
+export const parseFileLocation = (value: string): { filePath: string; position: Position } | undefined => {
+  const match = value.match(/^(.+):(\d+):(\d+)$/)
+  if (!match) return undefined
+  return { filePath: match[1]!, position: { line: Number(match[2]), character: Number(match[3]) } }
+}
+
+/**
+ * Options controlling position numbering, shared by commands that take or print positions
+ */
+export const POSITION_BASE_OPTIONS = {
+  'one-based': { type: 'boolean' },
+  'zero-based': { type: 'boolean' },
+} as const
+
+/** Usage line for the position numbering options */
+export const POSITION_BASE_USAGE = '  --one-based / --zero-based: Numbering of input and output positions'
+
+/**
+ * Pick the position numbering of a command invocation
+ *
+ * @remarks
+ * `--one-based` / `--zero-based` win. Without them, editor-style `file:line:col` arguments
+ * are 1-based, like the tool output they are copied from, and everything else is 0-based.
+ *
+ * @returns `undefined` when both switches are given
+ */
+export const getPositionBase = (
+  flags: { 'one-based'?: boolean; 'zero-based'?: boolean },
+  fileLocation = false,
+): PositionBase | undefined => {
+  if (flags['one-based'] && flags['zero-based']) return undefined
+  if (flags['one-based']) return 1
+  if (flags['zero-based']) return 0
+  return fileLocation ? 1 : 0
+}
+
+/**
+ * Resolve a symbol name to the start of its selection range (the symbol's name)
+ *
+ * @throws When no symbol or several symbols match; the message lists the candidates
+ */
+export const resolveSymbolPosition = async (
+  client: Pick<LspClient, 'documentSymbols'>,
+  uri: string,
+  name: string,
+  base: PositionBase = 0,
+): Promise<Position> => {
+  const symbols = ((await client.documentSymbols(uri)) as DocumentSymbol[] | null) ?? []
+  const matches = findSymbolsByName(symbols, name)
+  const describe = (match: SymbolMatch) =>
+    `  ${match.name} [${match.kind}] ${formatPosition(match.symbol.selectionRange.start, base)}`
+
+  if (matches.length === 1) {
+    return matches[0]!.symbol.selectionRange.start
+  }
+
+  if (matches.length > 1) {
+    throw new Error(`Symbol "${name}" is ambiguous, use the full name:\n${matches.map(describe).join('\n')}`)
+  }
+
+  const lowerName = name.toLowerCase()
+  const similar = flattenSymbols(symbols)
+    .filter((match) => match.name.toLowerCase().includes(lowerName))
+    .slice(0, 10)
+  const hint = similar.length ? `, similar symbols:\n${similar.map(describe).join('\n')}` : ''
+  throw new Error(`Symbol "${name}" not found in ${toWorkspacePath(uriToPath(uri))}${hint}`)
+}
+
+/**
+ * Target of a position-based command: a file plus either a position or a symbol name
+ */
+export type PositionTarget = {
+  filePath: string
+  /** Positionals following the position, e.g. the new name of lsp-rename */
+  rest: string[]
+  /** Numbering of the given position, also used for positions in the output */
+  base: PositionBase
+} & ({ position: Position } | { symbol: string })
+
+/** Options shared by position-based commands */
+export const POSITION_OPTIONS = {
+  symbol: { type: 'string' },
+  ...POSITION_BASE_OPTIONS,
+} as const
+
+/** Usage lines for the position arguments shared by position-based commands */
+export const POSITION_USAGE = [
+  '  file: Path to TypeScript/JavaScript file, or file:line:col (1-indexed) as printed by tsc and biome',
+  '  line: Line number (0-indexed)',
+  '  character: Character position (0-indexed)',
+  '  --symbol: Symbol name instead of line and character, e.g. parseConfig or ConfigManager.load',
+  POSITION_BASE_USAGE,
+]
+
+/**
+ * Parse `<file> <line> <character> [...rest]`, `<file:line:col> [...rest]`, or
+ * `<file> [...rest]` when a symbol name is given
+ *
+ * @remarks
+ * The returned position is always 0-based; `base` records the numbering used on the command line.
+ *
+ * @returns `undefined` when arguments are missing, line and character are not numbers or
+ * are out of range, or conflicting options are given
+ */
+export const parsePositionArgs = (
+  positionals: string[],
+  flags: { symbol?: string; 'one-based'?: boolean; 'zero-based'?: boolean } = {},
+): PositionTarget | undefined => {
+  const [first, ...args] = positionals
+  if (!first) return undefined
+
+  const location = parseFileLocation(first)
+  const base = getPositionBase(flags, Boolean(location))
+  if (base === undefined) return undefined
+
+  if (location) {
+    const position = toLspPosition(location.position, base)
+    if (flags.symbol || !position) return undefined
+    return { filePath: location.filePath, position, rest: args, base }
+  }
+
+  if (flags.symbol) return { filePath: first, symbol: flags.symbol, rest: args, base }
+
+  const [lineStr = '', charStr = '', ...rest] = args
+  if (!/^\d+$/.test(lineStr) || !/^\d+$/.test(charStr)) return undefined
+  const position = toLspPosition({ line: Number(lineStr), character: Number(charStr) }, base)
+  if (!position) return undefined
+  return { filePath: first, position, rest, base }
+}
+
+/**
+ * Position of a command target, resolving symbol names in the open document
+ */
+export const resolveTargetPosition = async (
+  client: Pick<LspClient, 'documentSymbols'>,
+  uri: string,
+  target: PositionTarget,
+): Promise<Position> =>
+  'position' in target ? target.position : resolveSymbolPosition(client, uri, target.symbol, target.base)
+
+/**
+ * Check whether a path is a declaration file inside `node_modules`
+ */
+export const isNodeModulesDeclaration = (path: string): boolean =>
+  path.includes('/node_modules/') && /\.d\.[mc]?ts$/.test(path)
+
+/**
+ * Read a range of lines (0-indexed, inclusive) from a file
+ *
+ * @returns The lines, or an empty array when the file cannot be read
+ */
+export const readLines = async (path: string, startLine: number, endLine: number): Promise<string[]> => {
+  const file = Bun.file(path)
+  if (!(await file.exists())) return []
+  const lines = (await file.text()).split('\n')
+  return lines.slice(Math.max(0, startLine), endLine + 1)
+}
+
+/**
+ * Check whether an argument is a glob pattern rather than a plain path
+ */
+export const isGlobPattern = (pattern: string): boolean => /[*?[\]{}]/.test(pattern)
+
+/** Build and tool output that globs skip outside a git repository */
+const OUTPUT_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'out', 'coverage', '.git'])
+
+/**
+ * List the files under cwd that git does not ignore, relative to cwd
+ *
+ * @returns `null` outside a git repository or when git is not installed
+ */
+const listUnignoredFiles = async (cwd: string): Promise<Set<string> | null> => {
+  try {
+    const proc = Bun.spawn(['git', 'ls-files', '-z', '--cached', '--others', '--exclude-standard'], {
+      cwd,
+      stdout: 'pipe',
+      stderr: 'ignore',
+    })
+    const [output, exitCode] = await Promise.all([new Response(proc.stdout).text(), proc.exited])
+    return exitCode === 0 ? new Set(output.split('\0').filter(Boolean)) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Expand file paths and glob patterns into absolute file paths
+ *
+ * @remarks
+ * Plain paths go through {@link resolveFilePath}; globs are matched from cwd.
+ * Glob matches that `.gitignore` excludes are skipped, and outside a git repository
+ * so are build output directories such as `dist` and `coverage`. `node_modules` is
+ * always skipped when matching globs. Results are deduplicated and sorted.
+ */
+export const expandFilePatterns = async (patterns: string[]): Promise<string[]> => {
+  const cwd = process.cwd()
+  const files = new Set<string>()
+  let unignored: Promise<Set<string> | null> | undefined
+
+  for (const pattern of patterns) {
+    if (!isGlobPattern(pattern)) {
+      files.add(await resolveFilePath(pattern))
+      continue
+    }
+
+    unignored ??= listUnignoredFiles(cwd)
+    const listed = await unignored
+    const glob = new Glob(pattern)
+    for await (const file of glob.scan({ cwd, absolute: true, onlyFiles: true })) {
+      if (file.includes('/node_modules/')) continue
+      const path = relative(cwd, file)
+      const ignored = listed ? !listed.has(path) : path.split('/').some((part) => OUTPUT_DIRECTORIES.has(part))
+      // Matches outside cwd are not covered by the listing
+      if (ignored && !path.startsWith('../')) continue
+      files.add(file)
+    }
+  }
+
+  return [...files].sort()
+}
+
+/**
+ * Find a default context file when none is provided
+ *
+ * @remarks
+ * Checks common TypeScript entry points in order of preference. Workspace symbol search
+ * needs an open document to know the project.
+ */
+export const findDefaultContextFile = async (): Promise<string | null> => {
+  const candidates = [`${process.cwd()}/src/index.ts`, `${process.cwd()}/src/main.ts`, `${process.cwd()}/index.ts`]
+  for (const candidate of candidates) {
+    if (await Bun.file(candidate).exists()) {
+      return candidate
+    }
+  }
+  return null
+}
@@ -0,0 +1,301 @@
+/**
+ * Export surface of a module, resolved by the TypeScript compiler
+ *
+ * @remarks
+ * The compiler follows `export { a as b } from`, `export * from` and re-exported imports
+ * to the declarations they stand for, which neither `documentSymbol` nor the source text
+ * reveal. Signatures come from the language server's hover at each declaration, so they
+ * read the same as `lsp-hover`.
+ *
+ * @internal
+ */
+
+import { dirname } from 'node:path'
+import ts from 'typescript'
+import type { LspClient } from './lsp-client.ts'
+import { getLanguageId, offsetToPosition, type Position, uriToPath } from './lsp-utils.ts'
+import type { Hover } from './output-format.ts'
+
+/**
+ * Public member of an exported class, interface or enum
+ */
+export type ExportMember = {
+  /** Member name; `static` members are prefixed, nameless signatures read `()`, `new()` or `[]` */
+  name: string
+  /** Name of the member in the export's file */
+  position?: Position
+  /** Signature from hover, or the source text of nameless signatures */
+  signature?: string
+}
+
+/**
+ * One name exported by a module
+ */
+export type ModuleExport = {
+  /** Exported name; `default` for default exports, `export=` for `export =` */
+  name: string
+  /** Name of the declaration when exported under another name, e.g. `a` for `export { a as b }` */
+  local?: string
+  /** Module specifier of the re-export that provides the name (`export ... from`, `export * from`) */
+  from?: string
+  /** Exported as a type only: an interface or type alias, or through `export type` */
+  typeOnly: boolean
+  kind: string
+  /** File of the declaration */
+  uri: string
+  /** Name of the declaration in its file */
+  position?: Position
+  /** Signature from hover at the declaration */
+  signature?: string
+  /** Public members, when requested */
+  members?: ExportMember[]
+}
+
+/**
+ * Compiler options of the project containing a file, or permissive defaults without tsconfig
+ */
+const getCompilerOptions = (path: string): ts.CompilerOptions => {
+  const configPath = ts.findConfigFile(dirname(path), ts.sys.fileExists)
+  const parsed = configPath
+    ? ts.getParsedCommandLineOfConfigFile(configPath, {}, { ...ts.sys, onUnRecoverableConfigFileDiagnostic: () => {} })
+    : undefined
+  return {
+    allowJs: true,
+    allowImportingTsExtensions: true,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    target: ts.ScriptTarget.Latest,
+    ...parsed?.options,
+    noEmit: true,
+    // Resolving exports needs no global declarations; skipping them saves most of the load time
+    noLib: true,
+    types: [],
+  }
+}
+
+/**
+ * Kind of a resolved export or other declared symbol, using `SymbolKind` names plus `TypeAlias`
+ */
+export const getExportKind = (symbol: ts.Symbol, declaration: ts.Declaration | undefined): string => {
+  const { flags } = symbol
+  if (flags & ts.SymbolFlags.Class) return 'Class'
+  if (flags & ts.SymbolFlags.Enum) return 'Enum'
+  if (flags & ts.SymbolFlags.Function) return 'Function'
+  if (flags & ts.SymbolFlags.Interface) return 'Interface'
+  if (flags & ts.SymbolFlags.TypeAlias) return 'TypeAlias'
+  if (flags & ts.SymbolFlags.Variable) {
+    const list = declaration && ts.isVariableDeclaration(declaration) ? declaration.parent : undefined
+    return list && ts.isVariableDeclarationList(list) && list.flags & ts.NodeFlags.Const ? 'Constant' : 'Variable'
+  }
+  if (declaration && ts.isSourceFile(declaration)) return 'Module'
+  if (flags & ts.SymbolFlags.Module) return 'Namespace'
+  return 'Unknown'
+}
+
+/**
+ * Public members of the declarations of a class, interface or enum in one file
+ */
+const getExportMembers = (declarations: ts.Declaration[], sourceFile: ts.SourceFile): ExportMember[] => {
+  const members: ExportMember[] = []
+  for (const declaration of declarations) {
+    if (declaration.getSourceFile() !== sourceFile) continue
+    if (!ts.isClassLike(declaration) && !ts.isInterfaceDeclaration(declaration) && !ts.isEnumDeclaration(declaration)) {
+      continue
+    }
+
+    for (const member of declaration.members as ts.NodeArray<ts.Node>) {
+      const modifiers = ts.canHaveModifiers(member) ? ts.getCombinedModifierFlags(member as ts.Declaration) : 0
+      if (modifiers & ts.ModifierFlags.Private) continue
+
+      if (ts.isConstructorDeclaration(member)) {
+        const keyword = member.getFirstToken(sourceFile)
+        const start = keyword ? keyword.getStart(sourceFile) : member.getStart(sourceFile)
+        members.push({ name: 'constructor', position: offsetToPosition(sourceFile.text, start) })
+        continue
+      }
+      if (ts.isCallSignatureDeclaration(member) || ts.isConstructSignatureDeclaration(member)) {
+        const name = ts.isCallSignatureDeclaration(member) ? '()' : 'new()'
+        members.push({ name, signature: member.getText(sourceFile).replace(/\s+/g, ' ') })
+        continue
+      }
+      if (ts.isIndexSignatureDeclaration(member)) {
+        members.push({ name: '[]', signature: member.getText(sourceFile).replace(/\s+/g, ' ') })
+        continue
+      }
+
+      const nameNode = ts.getNameOfDeclaration(member as ts.Declaration)
+      if (!nameNode || ts.isPrivateIdentifier(nameNode)) continue
+      const name =
+        modifiers & ts.ModifierFlags.Static ? `static ${nameNode.getText(sourceFile)}` : nameNode.getText(sourceFile)
+      members.push({ name, position: offsetToPosition(sourceFile.text, nameNode.getStart(sourceFile)) })
+    }
+  }
+  return members
+}
+
+/**
+ * Module specifier of the re-export statement of `entry` that provides an export
+ */
+const findReExportSource = (
+  checker: ts.TypeChecker,
+  entry: ts.SourceFile,
+  exported: ts.Symbol,
+  declaration: ts.Declaration | undefined,
+): string | undefined => {
+  // `export { a } from` and `export * as ns from` are declared in the entry itself
+  if (declaration && (ts.isExportSpecifier(declaration) || ts.isNamespaceExport(declaration))) {
+    const statement = ts.isExportSpecifier(declaration) ? declaration.parent.parent : declaration.parent
+    return statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+      ? statement.moduleSpecifier.text
+      : undefined
+  }
+  if (declaration?.getSourceFile() === entry) return undefined
+
+  // Otherwise the name comes through `export * from`
+  for (const statement of entry.statements) {
+    if (!ts.isExportDeclaration(statement) || statement.exportClause || !statement.moduleSpecifier) continue
+    const module = checker.getSymbolAtLocation(statement.moduleSpecifier)
+    if (
+      module &&
+      checker.getExportsOfModule(module).includes(exported) &&
+      ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      return statement.moduleSpecifier.text
+    }
+  }
+  return undefined
+}
+
+/**
+ * Build a program from modules and the tsconfig.json governing the first of them
+ *
+ * @remarks
+ * Share one program between {@link getModuleExports} calls when listing many modules.
+ *
+ * @param paths - Absolute paths of the modules
+ */
+export const createModuleProgram = (paths: string[]): ts.Program =>
+  ts.createProgram({ rootNames: paths, options: paths[0] ? getCompilerOptions(paths[0]) : {} })
+
+/**
+ * List the exports of a module
+ *
+ * @remarks
+ * Builds a program from the module and the tsconfig.json governing it, unless one is given.
+ * Exports are listed in the compiler's order: the module's own exports, then those of
+ * `export *` sources. Signatures are left to {@link addExportSignatures}.
+ *
+ * @param path - Absolute path of the module
+ * @param members - Also list the public members of exported classes, interfaces and enums
+ * @param program - Program from {@link createModuleProgram} that includes the module
+ */
+export const getModuleExports = (
+  path: string,
+  { members = false, program = createModuleProgram([path]) }: { members?: boolean; program?: ts.Program } = {},
+): ModuleExport[] => {
+  const checker = program.getTypeChecker()
+  const entry = program.getSourceFile(path)
+  const module = entry && checker.getSymbolAtLocation(entry)
+  if (!entry || !module) return []
+
+  return checker.getExportsOfModule(module).map((exported) => {
+    const [exportDeclaration] = exported.declarations ?? []
+    const target = exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported
+    const [declaration] = target.declarations ?? []
+
+    const name = exported.escapedName === 'export=' ? 'export=' : exported.name
+    const nameNode = declaration && !ts.isSourceFile(declaration) ? ts.getNameOfDeclaration(declaration) : undefined
+    const local = nameNode && ts.isIdentifier(nameNode) && nameNode.text !== name ? nameNode.text : undefined
+
+    const isTypeOnlyExport =
+      !!exportDeclaration &&
+      ts.isExportSpecifier(exportDeclaration) &&
+      (exportDeclaration.isTypeOnly || exportDeclaration.parent.parent.isTypeOnly)
+    const sourceFile = declaration?.getSourceFile()
+
+    const result: ModuleExport = {
+      name,
+      typeOnly: isTypeOnlyExport || !(target.flags & ts.SymbolFlags.Value),
+      kind: getExportKind(target, declaration),
+      uri: `file://${sourceFile?.fileName ?? path}`,
+    }
+    if (local) result.local = local
+    const from = findReExportSource(checker, entry, exported, exportDeclaration)
+    if (from) result.from = from
+    if (sourceFile && nameNode) result.position = offsetToPosition(sourceFile.text, nameNode.getStart(sourceFile))
+    if (
+      members &&
+      sourceFile &&
+      target.flags & (ts.SymbolFlags.Class | ts.SymbolFlags.Interface | ts.SymbolFlags.Enum)
+    ) {
+      result.members = getExportMembers(target.declarations ?? [], sourceFile)
+    }
+    return result
+  })
+}
+
+/**
+ * Take the signature out of hover contents: the first code block, or the plain text
+ */
+export const getHoverSignature = (hover: Hover | null | undefined): string | undefined => {
+  if (!hover) return undefined
+
+  const parts = Array.isArray(hover.contents) ? hover.contents : [hover.contents]
+  for (const part of parts) {
+    if (typeof part === 'string') {
+      if (part.trim()) return part.trim()
+      continue
+    }
+    if ('language' in part) return part.value.trim()
+    const block = part.value.match(/```\w*\n([\s\S]*?)\n```/)
+    return (block?.[1] ?? part.value).trim() || undefined
+  }
+  return undefined
+}
+
+/**
+ * Add the hover signature of each export's declaration and members
+ *
+ * @remarks
+ * Declaring files that are not open yet are opened for the hover and closed again.
+ *
+ * @param openUris - Documents the caller already opened
+ */
+export const addExportSignatures = async (
+  client: LspClient,
+  exports: ModuleExport[],
+  openUris: string[] = [],
+): Promise<ModuleExport[]> => {
+  const opened = new Set<string>()
+  const results: ModuleExport[] = []
+
+  const hoverSignature = async (uri: string, position: Position | undefined): Promise<string | undefined> => {
+    if (!position) return undefined
+    if (!openUris.includes(uri) && !opened.has(uri)) {
+      const path = uriToPath(uri)
+      client.openDocument(uri, getLanguageId(path), 1, await Bun.file(path).text())
+      opened.add(uri)
+    }
+    return getHoverSignature((await client.hover(uri, position.line, position.character)) as Hover | null)
+  }
+
+  for (const entry of exports) {
+    const result = { ...entry }
+    const signature = await hoverSignature(entry.uri, entry.position)
+    if (signature) result.signature = signature
+
+    if (entry.members) {
+      result.members = []
+      for (const member of entry.members) {
+        const memberSignature = member.signature ?? (await hoverSignature(entry.uri, member.position))
+        result.members.push(memberSignature ? { ...member, signature: memberSignature } : member)
+      }
+    }
+    results.push(result)
+  }
+
+  for (const uri of opened) {
+    client.closeDocument(uri)
+  }
+  return results
+}
@@ -0,0 +1,310 @@
+/**
+ * Output formats and budgets shared by lsp-* commands
+ *
+ * @remarks
+ * `json` prints the full result and stays the default. `jsonl` prints one compact JSON
+ * value per line: the items of an array result, or the command's records (e.g. one per
+ * diagnostic). `text` prints a compact rendering meant for reading, which saves tokens
+ * compared to the raw LSP JSON.
+ *
+ * `--max-results` and `--max-chars` cap the output for agents with limited context. A
+ * truncated result ends with a summary of all records counted per file (or per kind)
+ * and a hint on how to narrow the query.
+ *
+ * JSON output replaces `file://` URIs with workspace-relative paths, so results do not
+ * leak machine-specific paths; `--absolute-uris` keeps them.
+ *
+ * @internal
+ */
+
+import {
+  getSymbolKindName,
+  type Location,
+  type PositionBase,
+  toWorkspacePath,
+  uriToPath,
+  withPositionBase,
+  withWorkspacePaths,
+} from './lsp-utils.ts'
+
+export type OutputFormat = 'json' | 'jsonl' | 'text'
+
+const OUTPUT_FORMATS: OutputFormat[] = ['json', 'jsonl', 'text']
+
+/** Options shared by commands supporting output formats and budgets */
+export const OUTPUT_OPTIONS = {
+  format: { type: 'string', default: 'json' },
+  'max-results': { type: 'string' },
+  'max-chars': { type: 'string' },
+  'absolute-uris': { type: 'boolean' },
+} as const
+
+/** Usage lines for the output options */
+export const OUTPUT_USAGE = [
+  '  --format: Output format, json (default), jsonl or text',
+  '  --max-results / --max-chars: Truncate the output to a budget and summarize the rest',
+  '  --absolute-uris: Keep file:// URIs in JSON output instead of workspace-relative paths',
+]
+
+export type OutputOptions = {
+  format: OutputFormat
+  maxResults?: number
+  maxChars?: number
+  /** Keep `file://` URIs in JSON output */
+  absoluteUris?: boolean
+}
+
+/**
+ * Validate `--format`, `--max-results` and `--max-chars`, and read `--absolute-uris`
+ *
+ * @returns The options, or an error message naming the invalid option
+ */
+export const parseOutputOptions = (values: {
+  format: string
+  'max-results'?: string
+  'max-chars'?: string
+  'absolute-uris'?: boolean
+}): OutputOptions | { error: string } => {
+  const format = OUTPUT_FORMATS.find((candidate) => candidate === values.format)
+  if (!format) return { error: '--format must be "json", "jsonl" or "text"' }
+
+  const options: OutputOptions = { format }
+  for (const [name, key] of [
+    ['max-results', 'maxResults'],
+    ['max-chars', 'maxChars'],
+  ] as const) {
+    const value = values[name]
+    if (value === undefined) continue
+    if (!/^\d+$/.test(value)) return { error: `--${name} must be a non-negative number` }
+    options[key] = Number(value)
+  }
+  if (values['absolute-uris']) options.absoluteUris = true
+  return options
+}
+
+/**
+ * Renderers of a command result
+ *
+ * @remarks
+ * Renderers receive the result with positions already converted to the output numbering.
+ */
+export type ResultRenderers<T> = {
+  text: (result: T) => string | Promise<string>
+  /**
+   * Records of the result, printed one per line by `jsonl` and dropped first when the
+   * output exceeds its budget; defaults to the items of an array result
+   */
+  records?: (result: T) => unknown[]
+  /** Rebuild a non-array result with only some of its records */
+  withRecords?: (result: T, records: unknown[]) => T
+  /** How to narrow the query when the output is truncated */
+  hint?: string
+}
+
+/**
+ * Summary of the records left out of a truncated result
+ */
+type Truncation = {
+  total: number
+  shown: number
+  /** Number of records per file, or per kind for records without a file */
+  counts: Record<string, number>
+  hint: string
+}
+
+/** Groups listed in a truncation summary; the rest are counted as `(other)` */
+const MAX_SUMMARY_GROUPS = 20
+
+const DEFAULT_HINT = 'Narrow the query, or raise --max-results / --max-chars'
+
+/**
+ * Group key of a record: its file, or its kind when it has no file
+ */
+const getGroupKey = (record: unknown): string | undefined => {
+  if (!record || typeof record !== 'object') return undefined
+
+  const { file, uri, location, kind } = record as {
+    file?: unknown
+    uri?: unknown
+    location?: { uri?: unknown }
+    kind?: unknown
+  }
+  if (typeof file === 'string') return file
+  const fileUri = location?.uri ?? uri
+  if (typeof fileUri === 'string') return toWorkspacePath(uriToPath(fileUri))
+  if (typeof kind === 'string') return kind
+  if (typeof kind === 'number') return getSymbolKindName(kind)
+  return undefined
+}
+
+const countRecords = (records: unknown[]): Record<string, number> => {
+  const counts = new Map<string, number>()
+  for (const record of records) {
+    const key = getGroupKey(record) ?? '(unknown)'
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+
+  const sorted = [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+  const summary = Object.fromEntries(sorted.slice(0, MAX_SUMMARY_GROUPS))
+  const other = sorted.slice(MAX_SUMMARY_GROUPS).reduce((total, [, count]) => total + count, 0)
+  if (other) summary['(other)'] = other
+  return summary
+}
+
+const formatTruncation = ({ total, shown, counts, hint }: Truncation): string => {
+  const groups = Object.entries(counts).map(([key, count]) => `  ${key}: ${count}`)
+  return [`Showing ${shown} of ${total} results. All results by group:`, ...groups, `Hint: ${hint}`].join('\n')
+}
+
+/**
+ * Render a result in one format, with the truncation summary when records were left out
+ */
+const renderOutput = async <T>(
+  result: T,
+  { format, absoluteUris }: OutputOptions,
+  renderers: ResultRenderers<T>,
+  truncation?: Truncation,
+): Promise<string> => {
+  if (format === 'text') {
+    const text = await renderers.text(result)
+    return truncation ? `${text}\n\n${formatTruncation(truncation)}` : text
+  }
+
+  const output = absoluteUris ? result : withWorkspacePaths(result)
+
+  if (format === 'jsonl') {
+    const records = renderers.records ? renderers.records(output) : Array.isArray(output) ? output : [output]
+    const lines = records.map((record) => JSON.stringify(record))
+    if (truncation) lines.push(JSON.stringify({ truncated: truncation }))
+    return lines.join('\n')
+  }
+
+  if (!truncation) return JSON.stringify(output, null, 2)
+  const truncated = Array.isArray(output)
+    ? { results: output, truncated: truncation }
+    : { ...output, truncated: truncation }
+  return JSON.stringify(truncated, null, 2)
+}
+
+/**
+ * Print a command result in the requested format and position numbering, within the output budget
+ *
+ * @remarks
+ * Records beyond `--max-results` are dropped, then as many further records as needed to fit
+ * `--max-chars`. Results without records that exceed `--max-chars` are cut off: text output
+ * gets a marker, JSON output is replaced by a `preview` of the JSON text.
+ */
+export const printResult = async <T>(
+  result: T,
+  options: OutputOptions & { base: PositionBase },
+  renderers: ResultRenderers<T>,
+): Promise<void> => {
+  const { format, base, maxResults, maxChars } = options
+  const output = withPositionBase(result, base)
+  const hint = renderers.hint ?? DEFAULT_HINT
+  const records = renderers.records ? renderers.records(output) : Array.isArray(output) ? output : undefined
+
+  if (!records || (!Array.isArray(output) && !renderers.withRecords)) {
+    const text = await renderOutput(output, options, renderers)
+    if (maxChars === undefined || text.length <= maxChars) {
+      console.log(text)
+    } else if (format === 'text') {
+      console.log(
+        `${text.slice(0, maxChars)}\n... truncated to ${maxChars} of ${text.length} characters. Hint: ${hint}`,
+      )
+    } else {
+      const truncated = { truncated: { chars: text.length, maxChars, hint }, preview: text.slice(0, maxChars) }
+      console.log(format === 'jsonl' ? JSON.stringify(truncated) : JSON.stringify(truncated, null, 2))
+    }
+    return
+  }
+
+  const counts = countRecords(records)
+  const render = (shown: number): Promise<string> => {
+    if (shown >= records.length) return renderOutput(output, options, renderers)
+    const kept = records.slice(0, shown)
+    const limited = Array.isArray(output) ? (kept as T) : renderers.withRecords!(output, kept)
+    return renderOutput(limited, options, renderers, { total: records.length, shown, counts, hint })
+  }
+
+  let shown = Math.min(records.length, maxResults ?? records.length)
+  let text = await render(shown)
+
+  if (maxChars !== undefined && text.length > maxChars) {
+    // Largest number of records whose output fits, by binary search
+    let fits = 0
+    let low = 0
+    let high = shown - 1
+    while (low <= high) {
+      const middle = Math.floor((low + high) / 2)
+      if ((await render(middle)).length <= maxChars) {
+        fits = middle
+        low = middle + 1
+      } else {
+        high = middle - 1
+      }
+    }
+    shown = fits
+    text = await render(shown)
+  }
+
+  console.log(text)
+}
+
+type MarkedString = string | { language: string; value: string }
+
+export type Hover = {
+  contents: MarkedString | MarkedString[] | { kind: string; value: string }
+}
+
+/**
+ * Render hover contents as markdown, with signatures in code blocks
+ */
+export const formatHover = (hover: Hover | null | undefined): string => {
+  if (!hover) return 'No hover information'
+
+  const { contents } = hover
+  const parts = Array.isArray(contents) ? contents : [contents]
+  return parts
+    .map((part) => {
+      if (typeof part === 'string') return part.trim()
+      // MarkupContent is already markdown with the signature in a code block
+      if ('kind' in part) return part.value.trim()
+      return `\`\`\`${part.language}\n${part.value.trim()}\n\`\`\``
+    })
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+/**
+ * Render locations grouped by file and sorted by position, each with the source line it points at
+ *
+ * @param base - Numbering of the positions in `locations`
+ */
+export const formatLocations = async (
+  locations: Location[] | null | undefined,
+  base: PositionBase,
+): Promise<string> => {
+  if (!locations?.length) return 'No locations'
+
+  const byPath = new Map<string, Location[]>()
+  for (const location of locations) {
+    const path = uriToPath(location.uri)
+    byPath.set(path, [...(byPath.get(path) ?? []), location])
+  }
+
+  const sections: string[] = []
+  for (const [path, fileLocations] of byPath) {
+    const file = Bun.file(path)
+    const lines = (await file.exists()) ? (await file.text()).split('\n') : []
+    const sorted = fileLocations.toSorted(
+      (a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character,
+    )
+    const entries = sorted.map(({ range }) => {
+      const source = lines[range.start.line - base]?.trim() ?? ''
+      return `  ${range.start.line}:${range.start.character}  ${source}`.trimEnd()
+    })
+    sections.push(`${toWorkspacePath(path)} (${fileLocations.length})\n${entries.join('\n')}`)
+  }
+  return sections.join('\n')
+}
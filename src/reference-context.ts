@@ -0,0 +1,355 @@
+/**
+ * Source context of reference and symbol locations
+ *
+ * @remarks
+ * Backs `--context=N` of lsp-refs, lsp-find and lsp-analyze: each location gets its source
+ * line with N lines around it, the enclosing symbol from `documentSymbol`, and how the
+ * reference uses the symbol. The usage comes from the TypeScript parser rather than the
+ * language server, which reports neither imports nor type-only uses, and reports
+ * assignments as plain reads.
+ *
+ * @internal
+ */
+
+import ts from 'typescript'
+import type { LspClient } from './lsp-client.ts'
+import {
+  type DocumentSymbol,
+  getLanguageId,
+  getSymbolKindName,
+  type Location,
+  offsetToPosition,
+  type Position,
+  type PositionBase,
+  positionToOffset,
+  rangeContains,
+  toWorkspacePath,
+  uriToPath,
+} from './lsp-utils.ts'
+
+/**
+ * How a reference uses its symbol
+ *
+ * - `import`: imported or re-exported from another module
+ * - `type`: used in a type position, or declared as a type
+ * - `write`: declared with a value, assigned or incremented
+ * - `read`: any other use
+ */
+export type ReferenceUsage = 'read' | 'write' | 'import' | 'type'
+
+/**
+ * Numbered source line; `line` follows the output numbering
+ */
+export type SourceLine = { line: number; text: string }
+
+/**
+ * Details attached to a location by `--context`
+ */
+export type ReferenceDetails = {
+  usage: ReferenceUsage
+  /** Innermost symbol containing the location, with its dotted container path */
+  enclosing?: { name: string; kind: string }
+  /** The referenced line with the requested number of lines before and after it */
+  context: SourceLine[]
+}
+
+export type ReferenceWithContext = Location & ReferenceDetails
+
+/** Option of the commands supporting `--context` */
+export const CONTEXT_OPTIONS = {
+  context: { type: 'string' },
+} as const
+
+/** Usage line for `--context` */
+export const CONTEXT_USAGE =
+  '  --context <n>: Attach source lines (n around each result), enclosing symbol and read/write/import/type usage'
+
+/**
+ * Validate `--context`
+ *
+ * @returns The number of surrounding lines, `undefined` when the option is absent, or an error message
+ */
+export const parseContextOption = (value: string | undefined): number | undefined | { error: string } => {
+  if (value === undefined) return undefined
+  if (!/^\d+$/.test(value)) return { error: '--context must be a non-negative number of lines' }
+  return Number(value)
+}
+
+const ASSIGNMENT_OPERATORS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.EqualsToken,
+  ts.SyntaxKind.PlusEqualsToken,
+  ts.SyntaxKind.MinusEqualsToken,
+  ts.SyntaxKind.AsteriskEqualsToken,
+  ts.SyntaxKind.AsteriskAsteriskEqualsToken,
+  ts.SyntaxKind.SlashEqualsToken,
+  ts.SyntaxKind.PercentEqualsToken,
+  ts.SyntaxKind.LessThanLessThanEqualsToken,
+  ts.SyntaxKind.GreaterThanGreaterThanEqualsToken,
+  ts.SyntaxKind.GreaterThanGreaterThanGreaterThanEqualsToken,
+  ts.SyntaxKind.AmpersandEqualsToken,
+  ts.SyntaxKind.BarEqualsToken,
+  ts.SyntaxKind.CaretEqualsToken,
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken,
+])
+
+/**
+ * Find the innermost node starting at or containing an offset
+ */
+const findNodeAt = (sourceFile: ts.SourceFile, offset: number): ts.Node => {
+  let node: ts.Node = sourceFile
+  for (;;) {
+    const child: ts.Node | undefined = node.forEachChild((candidate) =>
+      candidate.getStart(sourceFile) <= offset && offset < candidate.end ? candidate : undefined,
+    )
+    if (!child) return node
+    node = child
+  }
+}
+
+const isDeclarationName = (node: ts.Node): boolean => {
+  const { parent } = node
+  return (
+    (ts.isVariableDeclaration(parent) ||
+      ts.isFunctionDeclaration(parent) ||
+      ts.isClassDeclaration(parent) ||
+      ts.isClassExpression(parent) ||
+      ts.isEnumDeclaration(parent) ||
+      ts.isEnumMember(parent) ||
+      ts.isModuleDeclaration(parent) ||
+      ts.isParameter(parent) ||
+      ts.isBindingElement(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isPropertyAssignment(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isGetAccessorDeclaration(parent) ||
+      ts.isSetAccessorDeclaration(parent)) &&
+    parent.name === node
+  )
+}
+
+const isTypeDeclarationName = (node: ts.Node): boolean => {
+  const { parent } = node
+  return (
+    (ts.isInterfaceDeclaration(parent) ||
+      ts.isTypeAliasDeclaration(parent) ||
+      ts.isTypeParameterDeclaration(parent) ||
+      ts.isPropertySignature(parent) ||
+      ts.isMethodSignature(parent)) &&
+    parent.name === node
+  )
+}
+
+/**
+ * Check whether a node is an assignment target or an increment/decrement operand
+ */
+const isWriteTarget = (node: ts.Node): boolean => {
+  // `a.b = 1` writes `b`; the object `a` is only read
+  let target = node
+  if (ts.isPropertyAccessExpression(target.parent) && target.parent.name === target) target = target.parent
+  while (ts.isParenthesizedExpression(target.parent)) target = target.parent
+
+  const { parent } = target
+  if (ts.isBinaryExpression(parent)) {
+    return parent.left === target && ASSIGNMENT_OPERATORS.has(parent.operatorToken.kind)
+  }
+  if (ts.isPrefixUnaryExpression(parent) || ts.isPostfixUnaryExpression(parent)) {
+    return parent.operator === ts.SyntaxKind.PlusPlusToken || parent.operator === ts.SyntaxKind.MinusMinusToken
+  }
+  return false
+}
+
+/**
+ * Find the name a location points at
+ *
+ * @remarks
+ * References start at the name itself, while workspace symbols span their whole
+ * declaration (`export class A {}`), whose name is returned instead.
+ */
+const findReferenceName = (sourceFile: ts.SourceFile, position: Position): ts.Node => {
+  const offset = positionToOffset(sourceFile.text, position)
+  const node = findNodeAt(sourceFile, offset)
+  if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) return node
+
+  for (let ancestor: ts.Node | undefined = node; ancestor; ancestor = ancestor.parent) {
+    if (ancestor.getStart(sourceFile) !== offset) break
+    const name = ts.isVariableStatement(ancestor)
+      ? ancestor.declarationList.declarations[0]?.name
+      : ts.getNameOfDeclaration(ancestor as ts.Declaration)
+    if (name) return name
+  }
+  return node
+}
+
+const classifyName = (node: ts.Node): ReferenceUsage => {
+  for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) {
+    if (ts.isImportDeclaration(ancestor) || ts.isImportEqualsDeclaration(ancestor)) return 'import'
+    if (ts.isExportDeclaration(ancestor) && ancestor.moduleSpecifier) return 'import'
+    // Classes extend values, unlike interfaces and `implements` clauses
+    if (ts.isHeritageClause(ancestor)) {
+      const isClassExtends =
+        ancestor.token === ts.SyntaxKind.ExtendsKeyword && !ts.isInterfaceDeclaration(ancestor.parent)
+      if (!isClassExtends) return 'type'
+      break
+    }
+    if (ts.isTypeNode(ancestor) && !ts.isExpressionWithTypeArguments(ancestor)) return 'type'
+  }
+
+  if (isTypeDeclarationName(node)) return 'type'
+  if (isDeclarationName(node)) return 'write'
+  if (isWriteTarget(node)) return 'write'
+  return 'read'
+}
+
+/**
+ * Classify how the reference at a position uses its symbol
+ *
+ * @param sourceFile - Parsed file containing the reference
+ * @param position - 0-based start of the reference, or of a declaration
+ */
+export const classifyReference = (sourceFile: ts.SourceFile, position: Position): ReferenceUsage =>
+  classifyName(findReferenceName(sourceFile, position))
+
+/**
+ * Find the innermost document symbol containing a position, other than the symbol named there
+ *
+ * @remarks
+ * Unlike {@link findEnclosingSymbol}, a declaration is not its own enclosing symbol.
+ */
+const findContainer = (
+  symbols: DocumentSymbol[],
+  position: Position,
+  prefix = '',
+): { name: string; kind: string } | undefined => {
+  for (const symbol of symbols) {
+    if (!rangeContains(symbol.range, position) || rangeContains(symbol.selectionRange, position)) continue
+
+    const name = prefix ? `${prefix}.${symbol.name}` : symbol.name
+    const inner = symbol.children ? findContainer(symbol.children, position, name) : undefined
+    return inner ?? { name, kind: getSymbolKindName(symbol.kind) }
+  }
+  return undefined
+}
+
+/**
+ * Take a line with `size` lines before and after it
+ *
+ * @param line - 0-based line
+ * @param base - Numbering of the returned lines
+ */
+export const getContextLines = (lines: string[], line: number, size: number, base: PositionBase): SourceLine[] => {
+  const start = Math.max(0, line - size)
+  const end = Math.min(lines.length - 1, line + size)
+  const context: SourceLine[] = []
+  for (let index = start; index <= end; index++) {
+    context.push({ line: index + base, text: lines[index] ?? '' })
+  }
+  return context
+}
+
+type SourceDocument = { lines: string[]; sourceFile: ts.SourceFile; symbols: DocumentSymbol[] }
+
+/**
+ * Attach source context, enclosing symbol and usage to locations
+ *
+ * @remarks
+ * Files that are not open yet are opened for `documentSymbol` and closed again.
+ * Locations in files that cannot be read get no context and count as reads.
+ *
+ * @param size - Number of lines before and after each location
+ * @param base - Numbering of the context lines
+ * @param openUris - Documents the caller already opened
+ */
+export const addReferenceContext = async (
+  client: LspClient,
+  locations: Location[],
+  { size, base, openUris = [] }: { size: number; base: PositionBase; openUris?: string[] },
+): Promise<ReferenceWithContext[]> => {
+  const documents = new Map<string, SourceDocument | undefined>()
+
+  const getDocument = async (uri: string): Promise<SourceDocument | undefined> => {
+    if (documents.has(uri)) return documents.get(uri)
+
+    const path = uriToPath(uri)
+    const file = Bun.file(path)
+    let document: SourceDocument | undefined
+    if (await file.exists()) {
+      const text = await file.text()
+      const isOpen = openUris.includes(uri)
+      if (!isOpen) client.openDocument(uri, getLanguageId(path), 1, text)
+      const symbols = ((await client.documentSymbols(uri)) as DocumentSymbol[] | null) ?? []
+      if (!isOpen) client.closeDocument(uri)
+      document = {
+        lines: text.split('\n'),
+        sourceFile: ts.createSourceFile(path, text, ts.ScriptTarget.Latest, true),
+        symbols,
+      }
+    }
+    documents.set(uri, document)
+    return document
+  }
+
+  const references: ReferenceWithContext[] = []
+  for (const location of locations) {
+    const document = await getDocument(location.uri)
+    if (!document) {
+      references.push({ ...location, usage: 'read', context: [] })
+      continue
+    }
+
+    const { sourceFile } = document
+    const name = findReferenceName(sourceFile, location.range.start)
+    const position = offsetToPosition(sourceFile.text, name.getStart(sourceFile))
+    const enclosing = findContainer(document.symbols, position)
+    references.push({
+      ...location,
+      usage: classifyName(name),
+      ...(enclosing && { enclosing }),
+      context: getContextLines(document.lines, location.range.start.line, size, base),
+    })
+  }
+  return references
+}
+
+/**
+ * Render context lines numbered and indented, marking the referenced line with `>`
+ *
+ * @param line - Referenced line, in the numbering of the context lines
+ */
+export const formatContextLines = (context: SourceLine[], line: number): string[] => {
+  const width = String(context.at(-1)?.line ?? line).length
+  return context.map((entry) =>
+    `  ${entry.line === line ? '>' : ' '} ${String(entry.line).padStart(width)} | ${entry.text}`.trimEnd(),
+  )
+}
+
+/**
+ * Render references grouped by file and sorted by position, with usage, enclosing symbol and source lines
+ *
+ * @remarks
+ * Expects positions already converted to the numbering of the context lines.
+ */
+export const formatReferences = (references: ReferenceWithContext[] | null | undefined): string => {
+  if (!references?.length) return 'No locations'
+
+  const byPath = new Map<string, ReferenceWithContext[]>()
+  for (const reference of references) {
+    const path = uriToPath(reference.uri)
+    byPath.set(path, [...(byPath.get(path) ?? []), reference])
+  }
+
+  const sections: string[] = []
+  for (const [path, fileReferences] of byPath) {
+    const sorted = fileReferences.toSorted(
+      (a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character,
+    )
+    const entries = sorted.map(({ range, usage, enclosing, context }) => {
+      const { line, character } = range.start
+      const owner = enclosing ? ` in ${enclosing.name} [${enclosing.kind}]` : ''
+      return [`  ${line}:${character}  ${usage}${owner}`, ...formatContextLines(context, line)].join('\n')
+    })
+    sections.push(`${toWorkspacePath(path)} (${fileReferences.length})\n${entries.join('\n')}`)
+  }
+  return sections.join('\n')
+}
@@ -0,0 +1,316 @@
+#!/usr/bin/env bun
+/**
+ * Compact, ranked map of the workspace's exported symbols, for the start of an agent session
+ *
+ * Lists the exports declared in each file with one-line hover signatures, grouped by
+ * directory. Each export is ranked by its references from other files, and each file by
+ * the total of its exports, so central files and symbols come first. The map is trimmed
+ * to a token budget (estimated at four characters per token); hovers are only requested
+ * for the symbols that fit.
+ *
+ * Usage: bun repo-map.ts [file|glob...] [options]
+ *
+ * Options:
+ *   --max-tokens <n>    Token budget of the map (default: 1024)
+ *   --exclude <glob>    Skip matching files; references from them still count (repeatable)
+ *   --format <format>   text (default), json or jsonl (one file per line)
+ */
+
+import { dirname } from 'node:path'
+import { parseArgs } from 'node:util'
+import { Glob } from 'bun'
+import { createLspClient } from './lsp-daemon.ts'
+import {
+  expandFilePatterns,
+  getLanguageId,
+  isDeclarationFile,
+  type Location,
+  type Position,
+  SOURCE_FILE_PATTERN,
+  toWorkspacePath,
+  uriToPath,
+} from './lsp-utils.ts'
+import { createModuleProgram, getHoverSignature, getModuleExports } from './module-exports.ts'
+import { type Hover, OUTPUT_OPTIONS, OUTPUT_USAGE, parseOutputOptions, printResult } from './output-format.ts'
+
+type MapSymbol = {
+  name: string
+  kind: string
+  /** Hover signature on one line */
+  signature?: string
+  /** References from other files */
+  references: number
+}
+
+type MapFile = {
+  file: string
+  /** References from other files to all exports of the file */
+  references: number
+  symbols: MapSymbol[]
+}
+
+type RepoMap = {
+  files: number
+  /** Estimated tokens of the text map */
+  tokens: number
+  maxTokens: number
+  directories: Array<{ directory: string; files: MapFile[] }>
+  /** Exports left out to stay within the budget */
+  omitted?: { symbols: number; files: number }
+}
+
+/** Export awaiting its place in the map */
+type RankedExport = MapSymbol & { path: string; file: string; position: Position; fileReferences: number }
+
+const DEFAULT_MAX_TOKENS = 1024
+
+/** Signatures are cut to this many characters */
+const MAX_SIGNATURE_LENGTH = 160
+
+/**
+ * Rough token count of text, at four characters per token
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4)
+
+/**
+ * Put a hover signature on one line, cut to {@link MAX_SIGNATURE_LENGTH} characters
+ */
+export const toSignatureLine = (signature: string): string => {
+  const line = signature.replace(/\s+/g, ' ').trim()
+  return line.length > MAX_SIGNATURE_LENGTH ? `${line.slice(0, MAX_SIGNATURE_LENGTH - 3)}...` : line
+}
+
+const directoryLine = (directory: string): string => `${directory}/`
+
+const fileLine = ({ file, references }: Pick<MapFile, 'file' | 'references'>): string =>
+  `  ${file.slice(file.lastIndexOf('/') + 1)} (${references} ref(s))`
+
+const symbolLine = ({ name, kind, signature }: MapSymbol): string => {
+  if (!signature) return `    ${name} [${kind}]`
+  return `    ${name === 'default' ? 'export default ' : ''}${signature}`
+}
+
+/**
+ * Render the map: directories, files with their reference counts, one line per symbol
+ */
+export const formatRepoMap = (map: RepoMap): string => {
+  const lines: string[] = []
+  for (const { directory, files } of map.directories) {
+    lines.push(directoryLine(directory))
+    for (const file of files) {
+      lines.push(fileLine(file), ...file.symbols.map(symbolLine))
+    }
+  }
+  if (map.omitted) {
+    const { symbols, files } = map.omitted
+    lines.push(`... ${symbols} more export(s) in ${files} file(s) beyond ${map.maxTokens} tokens (raise --max-tokens)`)
+  }
+  return lines.join('\n') || 'No exports found'
+}
+
+/**
+ * Sort exports by the references of their file, then by their own references
+ */
+export const rankExports = <T extends { file: string; name: string; references: number; fileReferences: number }>(
+  exports: T[],
+): T[] =>
+  [...exports].sort(
+    (a, b) =>
+      b.fileReferences - a.fileReferences ||
+      a.file.localeCompare(b.file) ||
+      b.references - a.references ||
+      a.name.localeCompare(b.name),
+  )
+
+/**
+ * Build a ranked map of the workspace's exports
+ *
+ * @param args - Command line arguments [file|glob...]
+ */
+export const repoMap = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      'max-tokens': { type: 'string' },
+      exclude: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+      ...OUTPUT_OPTIONS,
+      // The map is meant to be read, so text is the default here
+      format: { type: 'string', default: 'text' },
+    },
+    allowPositionals: true,
+  })
+
+  if (values.help) {
+    console.log(`
+Repo Map - Compact, ranked overview of the exported symbols of the workspace
+
+Usage: repo-map [file|glob...] [options]
+
+Lists each file's exports with one-line signatures, grouped by directory. Files and
+exports with the most references from other files come first, and the map is trimmed
+to the token budget. Maps every source file in the workspace when no files are given.
+
+Options:
+  --max-tokens <n>    Token budget of the map, at about four characters per token (default: ${DEFAULT_MAX_TOKENS})
+  --exclude <glob>    Skip matching files; references from them still count (repeatable)
+${OUTPUT_USAGE.join('\n').replace('json (default), jsonl or text', 'text (default), json or jsonl')}
+  --help, -h          Show this help
+
+Examples:
+  repo-map
+  repo-map 'src/**/*.ts' --exclude 'src/**/*.spec.ts' --max-tokens 2000
+`)
+    process.exit(0)
+  }
+
+  const outputOptions = parseOutputOptions(values)
+  if ('error' in outputOptions) {
+    console.error(`Error: ${outputOptions.error}`)
+    process.exit(1)
+  }
+
+  const maxTokens = values['max-tokens'] === undefined ? DEFAULT_MAX_TOKENS : Number(values['max-tokens'])
+  if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+    console.error('Error: --max-tokens must be a positive number')
+    process.exit(1)
+  }
+
+  const excluded = (values.exclude ?? []).map((pattern) => new Glob(pattern))
+  const files = (await expandFilePatterns(positionals.length ? positionals : [SOURCE_FILE_PATTERN])).filter(
+    (path) => !isDeclarationFile(path) && !excluded.some((glob) => glob.match(toWorkspacePath(path))),
+  )
+  if (files.length === 0) {
+    console.error('Error: No files matched')
+    process.exit(1)
+  }
+  for (const path of files) {
+    if (!(await Bun.file(path).exists())) {
+      console.error(`Error: File not found: ${path}`)
+      process.exit(1)
+    }
+  }
+
+  const program = createModuleProgram(files)
+  const rootUri = `file://${process.cwd()}`
+  const client = await createLspClient({ rootUri })
+
+  try {
+    await client.start()
+
+    // Open every file so references are found beyond the files the server loads itself
+    for (const path of files) {
+      client.openDocument(`file://${path}`, getLanguageId(path), 1, await Bun.file(path).text())
+      await client.waitForProject(`file://${path}`)
+    }
+
+    // Exports declared in each file, with their references from other files
+    const candidates: RankedExport[] = []
+    for (const path of files) {
+      const uri = `file://${path}`
+      const file = toWorkspacePath(path)
+      const seen = new Set<string>()
+      const fileExports: RankedExport[] = []
+
+      for (const { name, kind, uri: declarationUri, position } of getModuleExports(path, { program })) {
+        if (declarationUri !== uri || !position) continue
+        const key = `${position.line}:${position.character}`
+        if (seen.has(key)) continue
+        seen.add(key)
+
+        const locations =
+          ((await client.references(uri, position.line, position.character, false)) as Location[] | null) ?? []
+        const references = locations.filter((location) => uriToPath(location.uri) !== path).length
+        fileExports.push({ name, kind, references, path, file, position, fileReferences: 0 })
+      }
+
+      const fileReferences = fileExports.reduce((total, { references }) => total + references, 0)
+      candidates.push(...fileExports.map((entry) => ({ ...entry, fileReferences })))
+    }
+
+    // Take exports in rank order while the text map stays within the budget
+    const directories = new Map<string, MapFile[]>()
+    const mapFiles = new Map<string, MapFile>()
+    const ranked = rankExports(candidates)
+    let tokens = 0
+    let taken = 0
+    for (const candidate of ranked) {
+      const directory = dirname(candidate.file)
+      const hover = await client.hover(
+        `file://${candidate.path}`,
+        candidate.position.line,
+        candidate.position.character,
+      )
+      const signature = getHoverSignature(hover as Hover | null)
+      const symbol: MapSymbol = {
+        name: candidate.name,
+        kind: candidate.kind,
+        ...(signature && { signature: toSignatureLine(signature) }),
+        references: candidate.references,
+      }
+
+      const mapFile = mapFiles.get(candidate.path)
+      const added = [
+        !directories.has(directory) && directoryLine(directory),
+        !mapFile && fileLine({ file: candidate.file, references: candidate.fileReferences }),
+        symbolLine(symbol),
+      ].filter((line): line is string => Boolean(line))
+      const cost = estimateTokens(`${added.join('\n')}\n`)
+      if (tokens + cost > maxTokens) break
+
+      tokens += cost
+      taken += 1
+      if (mapFile) {
+        mapFile.symbols.push(symbol)
+      } else {
+        const created = { file: candidate.file, references: candidate.fileReferences, symbols: [symbol] }
+        mapFiles.set(candidate.path, created)
+        directories.set(directory, [...(directories.get(directory) ?? []), created])
+      }
+    }
+
+    for (const path of files) {
+      client.closeDocument(`file://${path}`)
+    }
+    await client.stop()
+
+    const map: RepoMap = {
+      files: files.length,
+      tokens,
+      maxTokens,
+      directories: [...directories].map(([directory, entries]) => ({ directory, files: entries })),
+    }
+    if (taken < ranked.length) {
+      const omittedFiles = new Set(ranked.slice(taken).map(({ path }) => path))
+      map.omitted = { symbols: ranked.length - taken, files: omittedFiles.size }
+    }
+
+    await printResult(
+      map,
+      { ...outputOptions, base: 0 },
+      {
+        text: formatRepoMap,
+        records: (output) => output.directories.flatMap(({ files: entries }) => entries),
+        withRecords: (output, records) => {
+          const kept = new Set(records)
+          return {
+            ...output,
+            directories: output.directories
+              .map((entry) => ({ ...entry, files: entry.files.filter((file) => kept.has(file)) }))
+              .filter((entry) => entry.files.length),
+          }
+        },
+        hint: 'Lower --max-tokens, or map fewer files',
+      },
+    )
+  } catch (error) {
+    console.error(`Error: ${error}`)
+    await client.stop()
+    process.exit(1)
+  }
+}
+
+// Keep executable entry point for direct execution
+if (import.meta.main) {
+  await repoMap(Bun.argv.slice(2))
+}
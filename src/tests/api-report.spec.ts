@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'bun:test'
+import { type ApiReport, diffReports } from '../api-report.ts'
+
+const baseline: ApiReport = {
+  entry: 'src/index.ts',
+  exports: [
+    { name: 'Config', kind: 'TypeAlias', typeOnly: true, signature: 'type Config = { name: string }' },
+    {
+      name: 'Loader',
+      kind: 'Class',
+      typeOnly: false,
+      signature: 'class Loader',
+      members: [
+        { name: 'load', signature: '(method) Loader.load(path: string): void' },
+        { name: 'reset', signature: '(method) Loader.reset(): void' },
+      ],
+    },
+    { name: 'parse', kind: 'Function', typeOnly: false, signature: 'function parse(input: string): Config' },
+  ],
+}
+
+describe('diffReports', () => {
+  test('reports no changes for identical reports', () => {
+    expect(diffReports(baseline, baseline)).toEqual([])
+  })
+
+  test('classifies added, removed and changed exports and members', () => {
+    const current: ApiReport = {
+      entry: 'src/index.ts',
+      exports: [
+        { name: 'Config', kind: 'TypeAlias', typeOnly: true, signature: 'type Config = { name: string }' },
+        {
+          name: 'Loader',
+          kind: 'Class',
+          typeOnly: false,
+          signature: 'class Loader',
+          members: [{ name: 'load', signature: '(method) Loader.load(path: string, force?: boolean): void' }],
+        },
+        { name: 'format', kind: 'Function', typeOnly: false, signature: 'function format(config: Config): string' },
+      ],
+    }
+
+    expect(diffReports(baseline, current)).toEqual([
+      {
+        kind: 'changed',
+        name: 'Loader.load',
+        before: '(method) Loader.load(path: string): void',
+        after: '(method) Loader.load(path: string, force?: boolean): void',
+      },
+      { kind: 'removed', name: 'Loader.reset', before: '(method) Loader.reset(): void' },
+      { kind: 'added', name: 'format', after: 'function format(config: Config): string [Function]' },
+      { kind: 'removed', name: 'parse', before: 'function parse(input: string): Config [Function]' },
+    ])
+  })
+
+  test('lists members of removed exports under the export only', () => {
+    const current: ApiReport = {
+      entry: 'src/index.ts',
+      exports: baseline.exports.filter(({ name }) => name !== 'Loader'),
+    }
+    expect(diffReports(baseline, current)).toEqual([
+      { kind: 'removed', name: 'Loader', before: 'class Loader [Class]' },
+    ])
+  })
+
+  test('treats exporting a value as type-only as a change', () => {
+    const current: ApiReport = {
+      entry: 'src/index.ts',
+      exports: baseline.exports.map((entry) => (entry.name === 'parse' ? { ...entry, typeOnly: true } : entry)),
+    }
+    expect(diffReports(baseline, current)).toEqual([
+      {
+        kind: 'changed',
+        name: 'parse',
+        before: 'function parse(input: string): Config [Function]',
+        after: 'function parse(input: string): Config [Function, type-only]',
+      },
+    ])
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, expect, test } from 'bun:test'
+import ts from 'typescript'
+import {
+  type DependencyModule,
+  findCycles,
+  findDependents,
+  formatDot,
+  formatMermaid,
+  getModuleSpecifiers,
+  getPackageName,
+} from '../deps-graph.ts'
+
+const modules: DependencyModule[] = [
+  { file: 'src/a.ts', imports: ['src/b.ts'] },
+  { file: 'src/b.ts', imports: ['src/c.ts'] },
+  { file: 'src/c.ts', imports: ['src/a.ts', 'src/d.ts'] },
+  { file: 'src/d.ts', imports: [] },
+  { file: 'src/e.ts', imports: ['src/d.ts', 'src/e.ts'] },
+  { file: 'src/f.ts', imports: ['src/e.ts'] },
+]
+
+describe('getModuleSpecifiers', () => {
+  test('finds static, dynamic and require imports with positions inside the quotes', () => {
+    const source = [
+      "import { a } from './a.ts'",
+      "export * from '@scope/pkg/sub'",
+      "import fs = require('node:fs')",
+      'const lazy = () => import("./lazy.ts")',
+      "const config = require('./config.json')",
+      "const text = 'import(not-a-module)'",
+    ].join('\n')
+    const sourceFile = ts.createSourceFile('/src/app.ts', source, ts.ScriptTarget.Latest, true)
+    expect(getModuleSpecifiers(sourceFile)).toEqual([
+      { specifier: './a.ts', position: { line: 0, character: 19 } },
+      { specifier: '@scope/pkg/sub', position: { line: 1, character: 15 } },
+      { specifier: 'node:fs', position: { line: 2, character: 21 } },
+      { specifier: './lazy.ts', position: { line: 3, character: 27 } },
+      { specifier: './config.json', position: { line: 4, character: 24 } },
+    ])
+  })
+})
+
+describe('getPackageName', () => {
+  test('drops subpaths, keeping scopes', () => {
+    expect(getPackageName('typescript')).toBe('typescript')
+    expect(getPackageName('lodash/fp')).toBe('lodash')
+    expect(getPackageName('@scope/pkg/sub/path')).toBe('@scope/pkg')
+  })
+})
+
+describe('findCycles', () => {
+  test('groups files that import each other, including self-imports', () => {
+    expect(findCycles(modules)).toEqual([['src/a.ts', 'src/b.ts', 'src/c.ts'], ['src/e.ts']])
+    expect(findCycles([{ file: 'src/d.ts', imports: [] }])).toEqual([])
+  })
+})
+
+describe('findDependents', () => {
+  test('lists direct and transitive importers', () => {
+    expect(findDependents(modules, 'src/d.ts')).toEqual({
+      file: 'src/d.ts',
+      direct: ['src/c.ts', 'src/e.ts'],
+      transitive: ['src/a.ts', 'src/b.ts', 'src/c.ts', 'src/e.ts', 'src/f.ts'],
+    })
+  })
+
+  test('leaves out the file itself when it is on a cycle', () => {
+    expect(findDependents(modules, 'src/e.ts')).toEqual({
+      file: 'src/e.ts',
+      direct: ['src/f.ts'],
+      transitive: ['src/f.ts'],
+    })
+  })
+})
+
+describe('graph formats', () => {
+  const graph = {
+    files: 3,
+    modules: [
+      { file: 'src/a.ts', imports: ['src/b.ts'] },
+      { file: 'src/b.ts', imports: ['src/a.ts', 'src/c.ts'] },
+      { file: 'src/c.ts', imports: [] },
+    ],
+    cycles: [['src/a.ts', 'src/b.ts']],
+    orphans: [],
+  }
+
+  test('draws DOT with cycle edges in red', () => {
+    expect(formatDot(graph)).toBe(
+      [
+        'digraph dependencies {',
+        '  rankdir=LR',
+        '  node [shape=box]',
+        '  "src/a.ts" -> "src/b.ts" [color=red]',
+        '  "src/b.ts" -> "src/a.ts" [color=red]',
+        '  "src/b.ts" -> "src/c.ts"',
+        '  "src/c.ts"',
+        '}',
+      ].join('\n'),
+    )
+  })
+
+  test('draws Mermaid with only the dependents of a file', () => {
+    const dependents = { file: 'src/c.ts', direct: ['src/b.ts'], transitive: ['src/a.ts', 'src/b.ts'] }
+    expect(formatMermaid({ ...graph, cycles: [], dependents })).toBe(
+      [
+        'graph LR',
+        '  n0["src/a.ts"]',
+        '  n1["src/b.ts"]',
+        '  n2["src/c.ts"]',
+        '  n0 --> n1',
+        '  n1 --> n0',
+        '  n1 --> n2',
+      ].join('\n'),
+    )
+  })
+})
@@ -0,0 +1,62 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import ts from 'typescript'
+import { getLocalDeclarations } from '../find-unused.ts'
+import { createModuleProgram, getModuleExports } from '../module-exports.ts'
+
+const fixtures = `${import.meta.dir}/fixtures`
+
+describe('getLocalDeclarations', () => {
+  let tempDir: string
+  let program: ts.Program
+  let checker: ts.TypeChecker
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'find-unused-test-'))
+    await Bun.write(
+      join(tempDir, 'locals.ts'),
+      ['const limit = 10', 'function helper() {}', 'export const used = helper() + limit'].join('\n'),
+    )
+    program = createModuleProgram([`${fixtures}/sample.ts`, `${fixtures}/reexports.ts`, join(tempDir, 'locals.ts')])
+    checker = program.getTypeChecker()
+  })
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  test('lists top-level declarations without export, with their kind', () => {
+    expect(getLocalDeclarations(program.getSourceFile(join(tempDir, 'locals.ts'))!, checker)).toEqual([
+      { name: 'limit', kind: 'Constant', position: { line: 0, character: 6 } },
+      { name: 'helper', kind: 'Function', position: { line: 1, character: 9 } },
+    ])
+    expect(getLocalDeclarations(program.getSourceFile(`${fixtures}/sample.ts`)!, checker)).toEqual([])
+    // `version` is exported through `export default version`
+    expect(getLocalDeclarations(program.getSourceFile(`${fixtures}/reexports.ts`)!, checker)).toEqual([])
+  })
+
+  test('includes destructured names and skips exported, export-listed and ambient declarations', () => {
+    const source = [
+      'const { a, b: [c] } = load()',
+      'export const d = 1',
+      'declare const e: number',
+      'function f() {}',
+      'type G = string',
+      'class H {}',
+      'export { f }',
+      'export default H',
+    ].join('\n')
+    const sourceFile = ts.createSourceFile('/src/locals.ts', source, ts.ScriptTarget.Latest, true)
+    expect(getLocalDeclarations(sourceFile, checker).map(({ name, position }) => ({ name, position }))).toEqual([
+      { name: 'a', position: { line: 0, character: 8 } },
+      { name: 'c', position: { line: 0, character: 15 } },
+      { name: 'G', position: { line: 4, character: 5 } },
+    ])
+  })
+
+  test('shares the program with getModuleExports', () => {
+    expect(getModuleExports(`${fixtures}/reexports.ts`, { program }).map(({ name }) => name)).toContain('default')
+  })
+})
@@ -0,0 +1,9 @@
+/**
+ * Re-export fixture for export analysis tests
+ */
+export type { Config } from './sample.ts'
+export * from './sample.ts'
+export { parseConfig as parse } from './sample.ts'
+
+const version = '1.0.0'
+export default version
@@ -0,0 +1,14 @@
+/**
+ * Interface fixture for implementation tests
+ */
+export interface Shape {
+  area(): number
+}
+
+export class Square implements Shape {
+  constructor(readonly side: number) {}
+
+  area(): number {
+    return this.side * this.side
+  }
+}
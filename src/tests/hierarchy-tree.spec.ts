@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'bun:test'
+import { buildHierarchyTree, formatHierarchyTree, type HierarchyItem } from '../hierarchy-tree.ts'
+
+const item = (name: string, line: number): HierarchyItem => {
+  const range = { start: { line, character: 13 }, end: { line, character: 13 + name.length } }
+  return { name, kind: 12, uri: `file://${process.cwd()}/src/calls.ts`, range, selectionRange: range }
+}
+
+const leaf = item('leaf', 0)
+const mid = item('mid', 1)
+const top = item('top', 2)
+
+// Callers of each function: leaf <- mid <- top, leaf <- top, top <- top (recursion)
+const callers: Record<string, HierarchyItem[]> = {
+  leaf: [mid, top],
+  mid: [top],
+  top: [top],
+}
+
+const getChildren = async (current: HierarchyItem) =>
+  (callers[current.name] ?? []).map((caller) => ({ item: caller, ranges: [caller.range] }))
+
+describe('buildHierarchyTree', () => {
+  test('expands children up to the requested depth', async () => {
+    const tree = await buildHierarchyTree({ roots: [leaf], depth: 1, getChildren })
+
+    expect(tree).toHaveLength(1)
+    expect(tree[0]?.name).toBe('leaf')
+    expect(tree[0]?.children?.map((node) => node.name)).toEqual(['mid', 'top'])
+    expect(tree[0]?.children?.[0]?.children).toBeUndefined()
+  })
+
+  test('marks items already expanded elsewhere as seen', async () => {
+    const tree = await buildHierarchyTree({ roots: [leaf], depth: 5, getChildren })
+    const [midNode, topNode] = tree[0]?.children ?? []
+
+    expect(midNode?.children?.[0]?.name).toBe('top')
+    expect(midNode?.children?.[0]?.seen).toBeUndefined()
+    expect(topNode?.seen).toBe(true)
+    expect(topNode?.children).toBeUndefined()
+  })
+
+  test('stops at recursive calls', async () => {
+    const tree = await buildHierarchyTree({ roots: [top], depth: 10, getChildren })
+
+    expect(tree[0]?.children).toHaveLength(1)
+    expect(tree[0]?.children?.[0]?.seen).toBe(true)
+  })
+
+  test('expands items again where they appear closer to the roots', async () => {
+    const main = item('main', 3)
+    // leaf <- mid <- top <- main, and leaf <- top directly
+    const chain: Record<string, HierarchyItem[]> = { leaf: [mid, top], mid: [top], top: [main] }
+    const tree = await buildHierarchyTree({
+      roots: [leaf],
+      depth: 2,
+      getChildren: async (current) => (chain[current.name] ?? []).map((caller) => ({ item: caller })),
+    })
+    const [midNode, topNode] = tree[0]?.children ?? []
+
+    // Reached first at the depth limit, so not expanded there
+    expect(midNode?.children?.[0]?.name).toBe('top')
+    expect(midNode?.children?.[0]?.children).toBeUndefined()
+    expect(topNode?.seen).toBeUndefined()
+    expect(topNode?.children?.map((node) => node.name)).toEqual(['main'])
+  })
+
+  test('uses workspace-relative files, kind names and linking ranges', async () => {
+    const tree = await buildHierarchyTree({ roots: [mid], depth: 1, getChildren })
+
+    expect(tree[0]?.file).toBe('src/calls.ts')
+    expect(tree[0]?.kind).toBe('Function')
+    expect(tree[0]?.children?.[0]?.ranges).toEqual([top.range])
+  })
+})
+
+describe('formatHierarchyTree', () => {
+  test('renders an indented tree with markers', async () => {
+    const tree = await buildHierarchyTree({ roots: [leaf], depth: 5, getChildren })
+
+    expect(formatHierarchyTree(tree, '←')).toBe(
+      [
+        'leaf [Function] src/calls.ts:0:13',
+        '← mid [Function] src/calls.ts:1:13',
+        '  ← top [Function] src/calls.ts:2:13',
+        '    ← top [Function] src/calls.ts:2:13 (see above)',
+        '← top [Function] src/calls.ts:2:13 (see above)',
+      ].join('\n'),
+    )
+  })
+})
@@ -0,0 +1,14 @@
+import { describe, expect, test } from 'bun:test'
+import { countSymbolKinds } from '../lsp-analyze.ts'
+
+describe('countSymbolKinds', () => {
+  test('counts symbols per kind, most frequent first', () => {
+    const symbols = [{ kind: 'Method' }, { kind: 'Class' }, { kind: 'Method' }, { kind: 'Constant' }]
+    expect(Object.entries(countSymbolKinds(symbols))).toEqual([
+      ['Method', 2],
+      ['Class', 1],
+      ['Constant', 1],
+    ])
+    expect(countSymbolKinds([])).toEqual({})
+  })
+})
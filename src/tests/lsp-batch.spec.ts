@@ -0,0 +1,46 @@
+import { describe, expect, test } from 'bun:test'
+import { parseBatchRequest } from '../lsp-batch.ts'
+
+describe('parseBatchRequest', () => {
+  test('reads positions, symbols and queries', () => {
+    expect(parseBatchRequest('{"id":"a","op":"hover","file":"a.ts","line":3,"char":5}', 1)).toEqual({
+      id: 'a',
+      op: 'hover',
+      file: 'a.ts',
+      position: { line: 3, character: 5 },
+    })
+    expect(parseBatchRequest('{"op":"refs","file":"a.ts","symbol":"Config.load","context":2}', 4)).toEqual({
+      id: 4,
+      op: 'refs',
+      file: 'a.ts',
+      symbol: 'Config.load',
+      context: 2,
+    })
+    expect(parseBatchRequest('{"op":"find","query":"Config"}', 2)).toEqual({ id: 2, op: 'find', query: 'Config' })
+    expect(parseBatchRequest('{"op":"symbols","file":"b.ts"}', 3)).toEqual({ id: 3, op: 'symbols', file: 'b.ts' })
+  })
+
+  test('accepts character as well as char', () => {
+    expect(parseBatchRequest('{"op":"definition","file":"a.ts","line":0,"character":7}', 1)).toMatchObject({
+      position: { line: 0, character: 7 },
+    })
+  })
+
+  test('reports invalid requests with their id', () => {
+    expect(parseBatchRequest('{"op":', 5)).toEqual({ id: 5, error: 'Invalid JSON' })
+    expect(parseBatchRequest('[1]', 5)).toEqual({ id: 5, error: 'Request must be a JSON object' })
+    expect(parseBatchRequest('{"id":7,"op":"rename"}', 5)).toMatchObject({
+      id: 7,
+      error: expect.stringMatching(/^op must/),
+    })
+    expect(parseBatchRequest('{"op":"symbols"}', 1)).toEqual({ id: 1, op: 'symbols', error: 'symbols requires file' })
+    expect(parseBatchRequest('{"op":"hover","file":"a.ts","line":-1,"char":0}', 1)).toEqual({
+      id: 1,
+      op: 'hover',
+      error: 'hover requires line and char, or symbol',
+    })
+    expect(parseBatchRequest('{"op":"hover","file":"a.ts","line":1,"char":0,"context":2}', 1)).toMatchObject({
+      error: 'context applies to refs, as a number of lines',
+    })
+  })
+})
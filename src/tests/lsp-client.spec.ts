@@ -5,6 +5,9 @@ const rootUri = `file://${process.cwd()}`
 const testFile = `${import.meta.dir}/fixtures/sample.ts`
 const testUri = `file://${testFile}`
 
+// Loading the whole project takes longer than the default test timeout
+const PROJECT_LOAD_TIMEOUT = 30000
+
 describe('LspClient', () => {
   let client: LspClient
 
@@ -26,6 +29,7 @@ describe('LspClient', () => {
   test('starts and stops LSP server', async () => {
     await client.start()
     expect(client.isRunning()).toBe(true)
+    expect(client.serverCapabilities.hoverProvider).toBeTruthy()
 
     await client.stop()
     expect(client.isRunning()).toBe(false)
@@ -162,6 +166,177 @@ describe('LspClient', () => {
 
       client.closeDocument(testUri)
     })
+
+    test(
+      'waits for the project before cross-file definitions',
+      async () => {
+        const reexportsFile = `${import.meta.dir}/fixtures/reexports.ts`
+        const reexportsUri = `file://${reexportsFile}`
+        const text = await Bun.file(reexportsFile).text()
+
+        client.openDocument(reexportsUri, 'typescript', 1, text)
+        await client.waitForProject(reexportsUri)
+
+        const lines = text.split('\n')
+        const line = lines.findIndex((currentLine) => currentLine.includes('parseConfig as parse'))
+        const char = lines[line]!.indexOf('parseConfig')
+
+        const result = (await client.definition(reexportsUri, line, char)) as Array<{
+          uri?: string
+          targetUri?: string
+        }>
+        expect(result.map((location) => location.targetUri ?? location.uri)).toEqual([testUri])
+
+        client.closeDocument(reexportsUri)
+      },
+      PROJECT_LOAD_TIMEOUT,
+    )
+
+    test('gets type definition', async () => {
+      const text = await Bun.file(testFile).text()
+
+      client.openDocument(testUri, 'typescript', 1, text)
+
+      // `this.#config = ...` - the type definition is the Config alias
+      const lines = text.split('\n')
+      const line = lines.findIndex((currentLine) => currentLine.includes('this.#config ='))
+      const char = lines[line]!.indexOf('#config')
+
+      const result = (await client.typeDefinition(testUri, line, char)) as Array<{ uri: string }>
+      expect(Array.isArray(result)).toBe(true)
+      expect(result[0]?.uri).toBe(testUri)
+
+      client.closeDocument(testUri)
+    })
+
+    test('finds implementations', async () => {
+      const shapesFile = `${import.meta.dir}/fixtures/shapes.ts`
+      const shapesUri = `file://${shapesFile}`
+      const text = await Bun.file(shapesFile).text()
+
+      client.openDocument(shapesUri, 'typescript', 1, text)
+
+      const lines = text.split('\n')
+      const line = lines.findIndex((currentLine) => currentLine.startsWith('export interface Shape'))
+      const char = lines[line]!.indexOf('Shape')
+      const squareLine = lines.findIndex((currentLine) => currentLine.startsWith('export class Square'))
+
+      const result = (await client.implementation(shapesUri, line, char)) as Array<{
+        uri: string
+        range: { start: { line: number } }
+      }>
+      expect(result.map(({ uri, range }) => ({ uri, line: range.start.line }))).toEqual([
+        { uri: shapesUri, line: squareLine },
+      ])
+
+      client.closeDocument(shapesUri)
+    })
+
+    test('resolves completion items', async () => {
+      const text = await Bun.file(testFile).text()
+
+      client.openDocument(testUri, 'typescript', 1, text)
+
+      // Inside `load`, after `this.#config = ` - globals and module members are offered
+      const lines = text.split('\n')
+      const line = lines.findIndex((currentLine) => currentLine.includes('this.#config ='))
+      const char = lines[line]!.indexOf('parseConfig')
+
+      const completion = (await client.completion(testUri, line, char)) as { items: Array<{ label: string }> }
+      const item = completion.items.find((candidate) => candidate.label === 'parseConfig')
+      expect(item).toBeDefined()
+
+      const resolved = (await client.resolveCompletionItem(item)) as { detail?: string }
+      expect(resolved.detail).toContain('parseConfig')
+
+      client.closeDocument(testUri)
+    })
+
+    test('computes rename edits', async () => {
+      const text = await Bun.file(testFile).text()
+
+      client.openDocument(testUri, 'typescript', 1, text)
+
+      const lines = text.split('\n')
+      const line = lines.findIndex((currentLine) => currentLine.startsWith('export const parseConfig'))
+      const char = lines[line]!.indexOf('parseConfig')
+
+      const prepared = await client.prepareRename(testUri, line, char)
+      expect(prepared).toBeTruthy()
+
+      const result = (await client.rename(testUri, line, char, 'readConfig')) as {
+        changes?: Record<string, Array<{ newText: string }>>
+        documentChanges?: Array<{ textDocument: { uri: string }; edits: Array<{ newText: string }> }>
+      }
+      const edits = result.documentChanges?.flatMap((change) => change.edits) ?? result.changes?.[testUri] ?? []
+      // Declaration and the call in ConfigManager.load
+      expect(edits.length).toBeGreaterThanOrEqual(2)
+      expect(edits.every((edit) => edit.newText === 'readConfig')).toBe(true)
+
+      client.closeDocument(testUri)
+    })
+  })
+
+  describe('server messages', () => {
+    class TestLspClient extends LspClient {
+      emit(method: string, params: unknown) {
+        this.dispatchNotification(method, params)
+      }
+    }
+
+    test('delivers notifications to method and wildcard subscribers', () => {
+      const testClient = new TestLspClient({ rootUri })
+      const received: string[] = []
+
+      testClient.onNotification('window/logMessage', (_params, method) => received.push(`method:${method}`))
+      testClient.onNotification('*', (_params, method) => received.push(`wildcard:${method}`))
+
+      testClient.emit('window/logMessage', { type: 3, message: 'hello' })
+      testClient.emit('$/progress', {})
+
+      expect(received).toEqual(['method:window/logMessage', 'wildcard:window/logMessage', 'wildcard:$/progress'])
+    })
+
+    test('unsubscribes notification handlers', () => {
+      const testClient = new TestLspClient({ rootUri })
+      let count = 0
+
+      const unsubscribe = testClient.onNotification('$/progress', () => {
+        count += 1
+      })
+      testClient.emit('$/progress', {})
+      unsubscribe()
+      testClient.emit('$/progress', {})
+
+      expect(count).toBe(1)
+    })
+
+    test('isolates failing notification handlers', () => {
+      const testClient = new TestLspClient({ rootUri })
+      let called = false
+
+      testClient.onNotification('$/progress', () => {
+        throw new Error('boom')
+      })
+      testClient.onNotification('$/progress', () => {
+        called = true
+      })
+
+      expect(() => testClient.emit('$/progress', {})).not.toThrow()
+      expect(called).toBe(true)
+    })
+
+    test('receives server notifications after start', async () => {
+      const liveClient = new LspClient({ rootUri })
+      const { promise, resolve } = Promise.withResolvers<unknown>()
+      liveClient.onNotification('$/typescriptVersion', resolve)
+
+      await liveClient.start()
+      const params = (await promise) as { version: string }
+      await liveClient.stop()
+
+      expect(params.version).toBeString()
+    })
   })
 
   describe('error handling', () => {
@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test'
+import { matchesKind, parseCodeActionArgs, parseRangeArgument } from '../lsp-code-actions.ts'
+
+describe('parseRangeArgument', () => {
+  test('parses a range of two positions', () => {
+    expect(parseRangeArgument('3:4-5:0')).toEqual({
+      start: { line: 3, character: 4 },
+      end: { line: 5, character: 0 },
+    })
+  })
+
+  test('rejects malformed input', () => {
+    expect(parseRangeArgument('3')).toBeUndefined()
+    expect(parseRangeArgument('3:24')).toBeUndefined()
+    expect(parseRangeArgument('3:4-5')).toBeUndefined()
+    expect(parseRangeArgument('a:b')).toBeUndefined()
+  })
+})
+
+describe('parseCodeActionArgs', () => {
+  test('takes a range in the requested numbering', () => {
+    expect(parseCodeActionArgs(['a.ts', '3:4-5:0'])).toEqual({
+      filePath: 'a.ts',
+      range: { start: { line: 3, character: 4 }, end: { line: 5, character: 0 } },
+      base: 0,
+    })
+    expect(parseCodeActionArgs(['a.ts', '4:5-6:1'], { 'one-based': true })).toEqual({
+      filePath: 'a.ts',
+      range: { start: { line: 3, character: 4 }, end: { line: 5, character: 0 } },
+      base: 1,
+    })
+    expect(parseCodeActionArgs(['a.ts', '0:0-1:1'], { 'one-based': true })).toBeUndefined()
+  })
+
+  test('takes positions and symbols like the other position-based commands', () => {
+    expect(parseCodeActionArgs(['a.ts', '12', '8'])).toEqual({
+      filePath: 'a.ts',
+      position: { line: 12, character: 8 },
+      rest: [],
+      base: 0,
+    })
+    expect(parseCodeActionArgs(['a.ts:13:9'])).toMatchObject({ position: { line: 12, character: 8 }, base: 1 })
+    expect(parseCodeActionArgs(['a.ts'], { symbol: 'main' })).toMatchObject({ filePath: 'a.ts', symbol: 'main' })
+  })
+
+  test('rejects the bare line:char form', () => {
+    expect(parseCodeActionArgs(['a.ts', '12:8'])).toBeUndefined()
+  })
+})
+
+describe('matchesKind', () => {
+  test('matches the kind and its sub-kinds', () => {
+    expect(matchesKind('source.organizeImports', 'source.organizeImports')).toBe(true)
+    expect(matchesKind('source.organizeImports.ts', 'source.organizeImports')).toBe(true)
+    expect(matchesKind('refactor.extract.constant', 'refactor')).toBe(true)
+  })
+
+  test('does not match unrelated or prefix-sharing kinds', () => {
+    expect(matchesKind('source.organizeImportsX', 'source.organizeImports')).toBe(false)
+    expect(matchesKind('quickfix', 'source')).toBe(false)
+    expect(matchesKind(undefined, 'quickfix')).toBe(false)
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test'
+import { rankCompletionItems } from '../lsp-complete.ts'
+
+describe('rankCompletionItems', () => {
+  const labels = (items: Array<{ label: string }>) => items.map((item) => item.label)
+
+  test('keeps every item when the prefix is empty, ordered by sortText', () => {
+    const ranked = rankCompletionItems(
+      [
+        { label: 'parseFloat', sortText: '15' },
+        { label: 'config', sortText: '11' },
+      ],
+      '',
+    )
+
+    expect(labels(ranked)).toEqual(['config', 'parseFloat'])
+  })
+
+  test('ranks exact-case prefix matches before case-insensitive and substring matches', () => {
+    const ranked = rankCompletionItems(
+      [
+        { label: 'ConfigManager', sortText: '11' },
+        { label: 'loadConfig', sortText: '11' },
+        { label: 'config', sortText: '11' },
+        { label: 'parseFloat', sortText: '11' },
+      ],
+      'config',
+    )
+
+    expect(labels(ranked)).toEqual(['config', 'ConfigManager', 'loadConfig'])
+  })
+
+  test('puts preselected items first among equal matches', () => {
+    const ranked = rankCompletionItems(
+      [
+        { label: 'valueA', sortText: '11' },
+        { label: 'valueB', sortText: '11', preselect: true },
+      ],
+      'val',
+    )
+
+    expect(labels(ranked)).toEqual(['valueB', 'valueA'])
+  })
+
+  test('matches against filterText when present', () => {
+    const ranked = rankCompletionItems([{ label: '#config', filterText: 'config' }], 'con')
+
+    expect(labels(ranked)).toEqual(['#config'])
+  })
+})
@@ -0,0 +1,179 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { lstat } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { LspClient } from '../lsp-client.ts'
+import {
+  createLspClient,
+  DaemonLspClient,
+  getDaemonSocketPath,
+  getDaemonStatus,
+  startDaemonServer,
+} from '../lsp-daemon.ts'
+
+const rootUri = `file://${process.cwd()}`
+const testFile = `${import.meta.dir}/fixtures/sample.ts`
+const testUri = `file://${testFile}`
+const socketPath = join(tmpdir(), `development-skills-lsp-test-${process.pid}.sock`)
+
+// The first query of a fresh workspace waits for the whole project to load
+const PROJECT_LOAD_TIMEOUT = 30000
+
+describe('LSP daemon', () => {
+  let server: Awaited<ReturnType<typeof startDaemonServer>>
+
+  beforeAll(async () => {
+    server = await startDaemonServer({ socketPath, idleTimeout: 60000 })
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  test('reports status while running', async () => {
+    const status = await getDaemonStatus(socketPath)
+
+    expect(status).not.toBeNull()
+    expect(status?.pid).toBe(process.pid)
+    expect(status?.socketPath).toBe(socketPath)
+  })
+
+  test('refuses to start while another daemon is listening', async () => {
+    await expect(startDaemonServer({ socketPath })).rejects.toThrow('LSP daemon already running')
+    expect(await getDaemonStatus(socketPath)).not.toBeNull()
+  })
+
+  test('lets only its owner use the socket', async () => {
+    const stats = await lstat(socketPath)
+    expect(stats.mode & 0o777).toBe(0o600)
+    expect(stats.uid).toBe(process.getuid!())
+  })
+
+  test('keeps the default socket in a per-user directory', () => {
+    expect(dirname(getDaemonSocketPath())).toBe(join(tmpdir(), `development-skills-lsp-${process.getuid!()}`))
+  })
+
+  test('returns null status when no daemon is listening', async () => {
+    const status = await getDaemonStatus(join(tmpdir(), 'development-skills-lsp-missing.sock'))
+    expect(status).toBeNull()
+  })
+
+  test('createLspClient prefers the daemon when running', async () => {
+    const client = await createLspClient({ rootUri, socketPath })
+    expect(client).toBeInstanceOf(DaemonLspClient)
+  })
+
+  test('createLspClient falls back to a local server', async () => {
+    const client = await createLspClient({ rootUri, socketPath: join(tmpdir(), 'development-skills-lsp-missing.sock') })
+    expect(client).toBeInstanceOf(LspClient)
+    expect(client).not.toBeInstanceOf(DaemonLspClient)
+  })
+
+  test(
+    'forwards requests and keeps the workspace warm between clients',
+    async () => {
+      const text = await Bun.file(testFile).text()
+
+      for (let i = 0; i < 2; i++) {
+        const client = new DaemonLspClient({ rootUri, socketPath })
+        await client.start()
+        expect(client.isRunning()).toBe(true)
+
+        client.openDocument(testUri, 'typescript', 1, text)
+        const result = await client.documentSymbols(testUri)
+        expect(Array.isArray(result)).toBe(true)
+        client.closeDocument(testUri)
+
+        await client.stop()
+        expect(client.isRunning()).toBe(false)
+      }
+
+      const status = server.getStatus()
+      expect(status.workspaces).toHaveLength(1)
+      expect(status.workspaces[0]?.rootUri).toBe(rootUri)
+    },
+    PROJECT_LOAD_TIMEOUT,
+  )
+
+  test(
+    'forwards server notifications to attached clients',
+    async () => {
+      const text = await Bun.file(testFile).text()
+      const client = new DaemonLspClient({ rootUri, socketPath })
+      const { promise, resolve } = Promise.withResolvers<{ uri: string }>()
+      client.onNotification('textDocument/publishDiagnostics', (params) => resolve(params as { uri: string }))
+
+      await client.start()
+      client.openDocument(testUri, 'typescript', 1, text)
+      const params = await promise
+      client.closeDocument(testUri)
+      await client.stop()
+
+      expect(params.uri).toBe(testUri)
+    },
+    PROJECT_LOAD_TIMEOUT,
+  )
+
+  test(
+    'forwards workspace/applyEdit of executed commands to the requesting client',
+    async () => {
+      const text = await Bun.file(testFile).text()
+      const client = new DaemonLspClient({ rootUri, socketPath })
+      const edits: unknown[] = []
+      client.onRequest('workspace/applyEdit', (params) => {
+        edits.push(params)
+        return { applied: true }
+      })
+
+      await client.start()
+      client.openDocument(testUri, 'typescript', 1, text)
+
+      const lines = text.split('\n')
+      const line = lines.findIndex((currentLine) => currentLine.includes('value: 42'))
+      const character = lines[line]!.indexOf('42')
+      const range = { start: { line, character }, end: { line, character: character + 2 } }
+      const actions = (await client.codeAction(testUri, range, {
+        diagnostics: [],
+        only: ['refactor.extract'],
+      })) as Array<{
+        command?: { command: string; arguments?: unknown[] }
+      }>
+      const command = actions.find((action) => action.command)?.command
+      expect(command).toBeDefined()
+
+      await client.executeCommand(command!.command, command!.arguments)
+      client.closeDocument(testUri)
+      await client.stop()
+
+      expect(edits.length).toBeGreaterThan(0)
+    },
+    PROJECT_LOAD_TIMEOUT,
+  )
+
+  test('throws on request when not connected', async () => {
+    const client = new DaemonLspClient({ rootUri, socketPath })
+    await expect(client.hover(testUri, 0, 0)).rejects.toThrow('LSP server not running')
+  })
+})
+
+describe('LSP daemon idle timeout', () => {
+  test(
+    'waits for requests in flight before stopping',
+    async () => {
+      const idleSocketPath = join(tmpdir(), `development-skills-lsp-idle-test-${process.pid}.sock`)
+      // Starting the language server alone takes longer than this timeout
+      const server = await startDaemonServer({ socketPath: idleSocketPath, idleTimeout: 100 })
+      const client = new DaemonLspClient({ rootUri, socketPath: idleSocketPath })
+
+      await client.start()
+      client.openDocument(testUri, 'typescript', 1, await Bun.file(testFile).text())
+      const result = await client.documentSymbols(testUri)
+      expect(Array.isArray(result)).toBe(true)
+      await client.stop()
+
+      await server.closed
+      expect(await getDaemonStatus(idleSocketPath)).toBeNull()
+    },
+    PROJECT_LOAD_TIMEOUT,
+  )
+})
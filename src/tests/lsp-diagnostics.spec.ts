@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+const command = join(import.meta.dir, '../lsp-diagnostics.ts')
+const fixture = join(import.meta.dir, 'fixtures/sample.ts')
+
+// Each run starts a language server and waits for its diagnostics
+const RUN_TIMEOUT = 30000
+
+const run = async (...args: string[]) => {
+  const proc = Bun.spawn(['bun', command, ...args], { stdout: 'pipe', stderr: 'pipe' })
+  const [exitCode, stdout] = await Promise.all([proc.exited, new Response(proc.stdout).text()])
+  return { exitCode, output: JSON.parse(stdout) }
+}
+
+describe('lsp-diagnostics exit code', () => {
+  let tempDir: string
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'lsp-diagnostics-test-'))
+  })
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  test(
+    'is 0 for files without errors',
+    async () => {
+      const { exitCode, output } = await run(fixture)
+      expect(output.summary.error).toBe(0)
+      expect(output.timedOut).toBeUndefined()
+      expect(exitCode).toBe(0)
+    },
+    RUN_TIMEOUT,
+  )
+
+  test(
+    'is 1 when errors are found',
+    async () => {
+      const path = join(tempDir, 'broken.ts')
+      await Bun.write(path, 'export const count: number = "one"\n')
+      const { exitCode, output } = await run(path)
+      expect(output.summary.error).toBe(1)
+      expect(exitCode).toBe(1)
+    },
+    RUN_TIMEOUT,
+  )
+
+  test(
+    'is 2 when a file was not checked before the timeout',
+    async () => {
+      const { exitCode, output } = await run(fixture, '--timeout', '1')
+      expect(output.timedOut).toEqual(['src/tests/fixtures/sample.ts'])
+      expect(exitCode).toBe(2)
+    },
+    RUN_TIMEOUT,
+  )
+})
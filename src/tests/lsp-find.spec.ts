@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm, symlink } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { getContainerName, getMatchRank, parseKindFilter, selectSymbols } from '../lsp-find.ts'
+
+const cwd = process.cwd()
+
+const symbol = (name: string, kind: number, path: string, line = 0, containerName?: string) => ({
+  name,
+  kind,
+  location: {
+    uri: path.startsWith('/') ? `file://${path}` : `file://${cwd}/${path}`,
+    range: { start: { line, character: 0 }, end: { line, character: name.length } },
+  },
+  ...(containerName && { containerName }),
+})
+
+describe('parseKindFilter', () => {
+  test('maps kind names in any case to SymbolKind values', () => {
+    expect(parseKindFilter('class,Function, interface')).toEqual([5, 12, 11])
+    expect(parseKindFilter('klass')).toHaveProperty('error')
+  })
+})
+
+describe('getMatchRank', () => {
+  test('ranks exact, case-insensitive, prefix, substring and fuzzy matches', () => {
+    expect(getMatchRank('Config', 'Config')).toBe(0)
+    expect(getMatchRank('config', 'Config')).toBe(1)
+    expect(getMatchRank('ConfigManager', 'Config')).toBe(2)
+    expect(getMatchRank('configPath', 'Config')).toBe(3)
+    expect(getMatchRank('parseConfig', 'Config')).toBe(4)
+    expect(getMatchRank('createOnFigure', 'Config')).toBe(5)
+  })
+})
+
+describe('getContainerName', () => {
+  const range = (startLine: number, endLine: number) => ({
+    start: { line: startLine, character: 0 },
+    end: { line: endLine, character: 1 },
+  })
+  const documentSymbols = [
+    {
+      name: 'ns',
+      kind: 3,
+      range: range(0, 10),
+      selectionRange: range(0, 0),
+      children: [
+        {
+          name: 'ConfigManager',
+          kind: 5,
+          range: range(1, 9),
+          selectionRange: range(1, 1),
+          children: [{ name: 'load', kind: 6, range: range(2, 4), selectionRange: range(2, 2) }],
+        },
+      ],
+    },
+    { name: 'main', kind: 12, range: range(12, 14), selectionRange: range(12, 12) },
+  ]
+
+  test('names the direct container of a symbol', () => {
+    expect(getContainerName(documentSymbols, symbol('load', 6, 'a.ts', 2))).toBe('ConfigManager')
+    expect(getContainerName(documentSymbols, symbol('ConfigManager', 5, 'a.ts', 1))).toBe('ns')
+    expect(getContainerName(documentSymbols, symbol('main', 12, 'a.ts', 12))).toBeUndefined()
+  })
+})
+
+describe('selectSymbols', () => {
+  const symbols = [
+    symbol('parseConfig', 12, 'src/lib/config.ts', 8),
+    symbol('Config', 13, 'node_modules/pkg/index.d.ts'),
+    symbol('ConfigManager', 5, 'src/lib/config.ts', 16),
+    symbol('Config', 11, 'src/lib/config.ts', 3),
+    symbol('Config', 11, 'src/lib/config.ts', 3),
+    symbol('config', 14, 'src/app.ts', 1),
+    symbol('load', 6, 'src/lib/config.ts', 18, 'ConfigManager'),
+    symbol('load', 6, 'src/lib/loader.ts', 4, 'Loader'),
+  ]
+  const describeSymbols = (selected: ReturnType<typeof selectSymbols>) =>
+    selected.map(({ name, location }) => `${name} ${location.uri.slice(cwd.length + 8)}`)
+
+  test('ranks better matches first and drops duplicates', () => {
+    expect(describeSymbols(selectSymbols(symbols, 'Config', {}))).toEqual([
+      'Config node_modules/pkg/index.d.ts',
+      'Config src/lib/config.ts',
+      'config src/app.ts',
+      'ConfigManager src/lib/config.ts',
+      'parseConfig src/lib/config.ts',
+      'load src/lib/config.ts',
+      'load src/lib/loader.ts',
+    ])
+  })
+
+  test('filters by kind, path, node_modules and exact name', () => {
+    expect(describeSymbols(selectSymbols(symbols, 'Config', { kinds: [5, 11] }))).toEqual([
+      'Config src/lib/config.ts',
+      'ConfigManager src/lib/config.ts',
+    ])
+    expect(describeSymbols(selectSymbols(symbols, 'Config', { in: 'src/lib/**' }))).toEqual([
+      'Config src/lib/config.ts',
+      'ConfigManager src/lib/config.ts',
+      'parseConfig src/lib/config.ts',
+      'load src/lib/config.ts',
+      'load src/lib/loader.ts',
+    ])
+    expect(describeSymbols(selectSymbols(symbols, 'load', { container: 'ConfigManager' }))).toEqual([
+      'load src/lib/config.ts',
+    ])
+    expect(describeSymbols(selectSymbols(symbols, 'Config', { excludeNodeModules: true, exact: 'Config' }))).toEqual([
+      'Config src/lib/config.ts',
+    ])
+  })
+})
+
+describe('selectSymbols deduplication', () => {
+  let tempDir: string
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'lsp-find-test-'))
+    await Bun.write(join(tempDir, 'config.ts'), 'export function parse(a: string): string\n')
+    await symlink(join(tempDir, 'config.ts'), join(tempDir, 'linked.ts'))
+  })
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  test('keeps a symbol once across symlinked paths', () => {
+    const selected = selectSymbols(
+      [
+        symbol('parse', 12, join(tempDir, 'config.ts'), 0),
+        symbol('parse', 12, join(tempDir, 'linked.ts'), 0),
+        symbol('parse', 6, join(tempDir, 'linked.ts'), 5, 'Parser'),
+        symbol('parse', 6, join(tempDir, 'config.ts'), 9, 'Lexer'),
+      ],
+      'parse',
+      {},
+    )
+    const describeLocation = ({ location }: (typeof selected)[number]) =>
+      `${location.uri.slice(tempDir.length + 8)}:${location.range.start.line}`
+    expect(selected.map(describeLocation)).toEqual(['config.ts:0', 'linked.ts:5', 'config.ts:9'])
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+
+const command = join(import.meta.dir, '../lsp-rename.ts')
+const fixture = join(import.meta.dir, 'fixtures/shapes.ts')
+
+// Each run starts a language server and waits for the project to load
+const RUN_TIMEOUT = 30000
+
+const run = async (...args: string[]) => {
+  const proc = Bun.spawn(['bun', command, ...args], { stdout: 'pipe', stderr: 'pipe' })
+  const [exitCode, stdout] = await Promise.all([proc.exited, new Response(proc.stdout).text()])
+  return { exitCode, stdout }
+}
+
+describe('lsp-rename output', () => {
+  test(
+    'previews the rename as a unified diff by default',
+    async () => {
+      const { exitCode, stdout } = await run(fixture, '--symbol', 'Shape', 'Polygon')
+
+      expect(exitCode).toBe(0)
+      expect(stdout).toContain('--- a/src/tests/fixtures/shapes.ts')
+      expect(stdout).toContain('+export interface Polygon {')
+      expect(stdout).toContain('+export class Square implements Polygon {')
+    },
+    RUN_TIMEOUT,
+  )
+
+  test(
+    'prints one record per file with --format=jsonl',
+    async () => {
+      const { exitCode, stdout } = await run(fixture, '--symbol', 'Shape', 'Polygon', '--format=jsonl')
+      const records = stdout
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line))
+
+      expect(exitCode).toBe(0)
+      expect(records).toHaveLength(1)
+      expect(records[0]).toMatchObject({ file: 'src/tests/fixtures/shapes.ts', edits: 2 })
+      expect(records[0].diff).toContain('+export interface Polygon {')
+    },
+    RUN_TIMEOUT,
+  )
+})
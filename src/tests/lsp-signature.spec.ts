@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test'
+import { formatSignatureHelp } from '../lsp-signature.ts'
+
+describe('formatSignatureHelp', () => {
+  test('marks the active signature and parameter', () => {
+    const result = formatSignatureHelp({
+      activeSignature: 1,
+      activeParameter: 1,
+      signatures: [
+        { label: 'format(value: string): string', parameters: [{ label: 'value: string' }] },
+        {
+          label: 'format(value: number, digits: number): string',
+          parameters: [{ label: 'value: number' }, { label: 'digits: number' }],
+        },
+      ],
+    })
+
+    expect(result.activeSignature).toBe(1)
+    expect(result.activeParameter).toBe(1)
+    expect(result.signatures[0]?.active).toBeUndefined()
+    expect(result.signatures[1]?.active).toBe(true)
+    expect(result.signatures[1]?.parameters.map((parameter) => parameter.active)).toEqual([undefined, true])
+  })
+
+  test('resolves offset labels and cleans up documentation', () => {
+    const label = 'parseConfig(input: string): Config'
+    const result = formatSignatureHelp({
+      signatures: [
+        {
+          label,
+          documentation: { kind: 'markdown', value: 'Parse a config' },
+          parameters: [{ label: [12, 25], documentation: { kind: 'markdown', value: '- Raw input' } }],
+        },
+      ],
+    })
+
+    expect(result.signatures[0]).toEqual({
+      label,
+      documentation: 'Parse a config',
+      parameters: [{ label: 'input: string', documentation: 'Raw input', active: true }],
+      active: true,
+    })
+  })
+
+  test('prefers the active parameter of the signature itself', () => {
+    const result = formatSignatureHelp({
+      activeParameter: 0,
+      signatures: [{ label: 'f(a, b)', activeParameter: 1, parameters: [{ label: 'a' }, { label: 'b' }] }],
+    })
+
+    expect(result.activeParameter).toBe(1)
+    expect(result.signatures[0]?.parameters[1]?.active).toBe(true)
+  })
+})
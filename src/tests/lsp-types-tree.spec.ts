@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test'
+import ts from 'typescript'
+import { findHeritageNames } from '../lsp-types-tree.ts'
+
+/** Heritage names of the declaration named `name` in `source` */
+const names = (source: string, name = 'A') => {
+  const sourceFile = ts.createSourceFile('/a.ts', source, ts.ScriptTarget.Latest, true)
+  const nameOffset = source.search(new RegExp(`\\b${name}\\b`))
+  return findHeritageNames(sourceFile, nameOffset).map((offset) => source.slice(offset).match(/^\w+/)?.[0])
+}
+
+describe('findHeritageNames', () => {
+  test('finds extends and implements clauses', () => {
+    expect(names('class A extends Square implements Named, Shape {}')).toEqual(['Square', 'Named', 'Shape'])
+  })
+
+  test('returns nothing without heritage clauses', () => {
+    expect(names('class A {}')).toEqual([])
+  })
+
+  test('skips type parameters and type arguments', () => {
+    expect(names('class A<T extends Base> extends Container<T, Other> implements Iterable<T> {}')).toEqual([
+      'Container',
+      'Iterable',
+    ])
+  })
+
+  test('is not misled by braces in type arguments', () => {
+    expect(names('class A extends B<{ x: string }> implements C<{ y: number }> {}')).toEqual(['B', 'C'])
+  })
+
+  test('points at the last segment of qualified names', () => {
+    expect(names('class A extends ns.inner.Base implements api.Shape {}')).toEqual(['Base', 'Shape'])
+  })
+
+  test('handles interfaces extending several types', () => {
+    expect(names('interface A extends X, Y<string>, Z {}')).toEqual(['X', 'Y', 'Z'])
+  })
+
+  test('picks the declaration named at the offset', () => {
+    const source = 'class B extends Base {}\nnamespace ns {\n  export class A extends Inner {}\n}'
+    expect(names(source)).toEqual(['Inner'])
+    expect(names(source, 'B')).toEqual(['Base'])
+  })
+})
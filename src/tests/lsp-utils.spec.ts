@@ -0,0 +1,388 @@
+import { describe, expect, test } from 'bun:test'
+import { mkdtemp, realpath, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  type DocumentSymbol,
+  expandFilePatterns,
+  findEnclosingSymbol,
+  findSymbolsByName,
+  getLanguageId,
+  getSymbolKindName,
+  isNodeModulesDeclaration,
+  normalizeLocations,
+  offsetToPosition,
+  parseFileLocation,
+  parsePositionArgs,
+  positionToOffset,
+  rangeContains,
+  readLines,
+  resolveSymbolPosition,
+  toWorkspacePath,
+  uriToPath,
+  withPositionBase,
+  withWorkspacePaths,
+} from '../lsp-utils.ts'
+
+describe('getLanguageId', () => {
+  test('maps file extensions to LSP language ids', () => {
+    expect(getLanguageId('/src/app.ts')).toBe('typescript')
+    expect(getLanguageId('/src/app.mts')).toBe('typescript')
+    expect(getLanguageId('/src/app.cts')).toBe('typescript')
+    expect(getLanguageId('/src/app.tsx')).toBe('typescriptreact')
+    expect(getLanguageId('/src/app.jsx')).toBe('javascriptreact')
+    expect(getLanguageId('/src/app.js')).toBe('javascript')
+    expect(getLanguageId('/src/app.mjs')).toBe('javascript')
+  })
+})
+
+describe('uriToPath', () => {
+  test('converts file URIs to paths', () => {
+    expect(uriToPath('file:///Users/test/file.ts')).toBe('/Users/test/file.ts')
+  })
+
+  test('decodes escaped characters', () => {
+    expect(uriToPath('file:///Users/test/my%20file.ts')).toBe('/Users/test/my file.ts')
+  })
+
+  test('returns non-file URIs unchanged', () => {
+    expect(uriToPath('untitled:Untitled-1')).toBe('untitled:Untitled-1')
+  })
+})
+
+describe('normalizeLocations', () => {
+  const range = { start: { line: 1, character: 2 }, end: { line: 1, character: 8 } }
+  const fullRange = { start: { line: 0, character: 0 }, end: { line: 4, character: 1 } }
+
+  test('returns empty list for null results', () => {
+    expect(normalizeLocations(null)).toEqual([])
+  })
+
+  test('wraps a single Location', () => {
+    expect(normalizeLocations({ uri: 'file:///a.ts', range })).toEqual([{ uri: 'file:///a.ts', range }])
+  })
+
+  test('converts LocationLink to location with target range', () => {
+    const result = normalizeLocations([
+      { targetUri: 'file:///b.ts', targetRange: fullRange, targetSelectionRange: range, originSelectionRange: range },
+    ])
+
+    expect(result).toEqual([{ uri: 'file:///b.ts', range, targetRange: fullRange }])
+  })
+})
+
+describe('rangeContains', () => {
+  const range = { start: { line: 2, character: 4 }, end: { line: 5, character: 1 } }
+
+  test('includes positions inside and on the boundaries', () => {
+    expect(rangeContains(range, { line: 3, character: 0 })).toBe(true)
+    expect(rangeContains(range, { line: 2, character: 4 })).toBe(true)
+    expect(rangeContains(range, { line: 5, character: 1 })).toBe(true)
+  })
+
+  test('excludes positions outside', () => {
+    expect(rangeContains(range, { line: 2, character: 3 })).toBe(false)
+    expect(rangeContains(range, { line: 5, character: 2 })).toBe(false)
+    expect(rangeContains(range, { line: 6, character: 0 })).toBe(false)
+  })
+})
+
+describe('offsetToPosition / positionToOffset', () => {
+  const text = 'const a = 1\nconst b = 2\n\nexport { a, b }'
+
+  test('converts offsets to positions', () => {
+    expect(offsetToPosition(text, 0)).toEqual({ line: 0, character: 0 })
+    expect(offsetToPosition(text, text.indexOf('b'))).toEqual({ line: 1, character: 6 })
+    expect(offsetToPosition(text, text.indexOf('export'))).toEqual({ line: 3, character: 0 })
+  })
+
+  test('converts positions to offsets', () => {
+    expect(positionToOffset(text, { line: 1, character: 6 })).toBe(text.indexOf('b'))
+    expect(positionToOffset(text, { line: 3, character: 0 })).toBe(text.indexOf('export'))
+  })
+
+  test('clamps positions past the end', () => {
+    expect(positionToOffset(text, { line: 10, character: 0 })).toBe(text.length)
+  })
+})
+
+describe('findEnclosingSymbol', () => {
+  const symbol = (name: string, kind: number, start: number, end: number, children?: DocumentSymbol[]) => ({
+    name,
+    kind,
+    range: { start: { line: start, character: 0 }, end: { line: end, character: 1 } },
+    selectionRange: { start: { line: start, character: 0 }, end: { line: start, character: name.length } },
+    children,
+  })
+
+  const symbols = [
+    symbol('parseConfig', 14, 0, 2),
+    symbol('ConfigManager', 5, 4, 12, [symbol('load', 6, 6, 8), symbol('get', 6, 10, 11)]),
+  ]
+
+  test('returns the innermost symbol with its container path', () => {
+    const result = findEnclosingSymbol(symbols, { line: 7, character: 2 })
+    expect(result?.name).toBe('ConfigManager.load')
+    expect(result?.kind).toBe('Method')
+  })
+
+  test('returns the container when no child matches', () => {
+    expect(findEnclosingSymbol(symbols, { line: 9, character: 0 })?.name).toBe('ConfigManager')
+  })
+
+  test('returns undefined outside every symbol', () => {
+    expect(findEnclosingSymbol(symbols, { line: 3, character: 0 })).toBeUndefined()
+  })
+})
+
+describe('findSymbolsByName / resolveSymbolPosition', () => {
+  const symbol = (name: string, kind: number, line: number, children?: DocumentSymbol[]) => ({
+    name,
+    kind,
+    range: { start: { line, character: 0 }, end: { line: line + 1, character: 1 } },
+    selectionRange: { start: { line, character: 2 }, end: { line, character: 2 + name.length } },
+    children,
+  })
+
+  const symbols = [
+    symbol('format', 12, 0),
+    symbol('format', 12, 1),
+    symbol('ConfigManager', 5, 4, [symbol('load', 6, 6), symbol('get', 6, 10)]),
+    symbol('Cache', 5, 14, [symbol('get', 6, 16)]),
+  ]
+  const client = { documentSymbols: async () => symbols }
+
+  test('matches full dotted names and trailing parts', () => {
+    expect(findSymbolsByName(symbols, 'ConfigManager.load').map((match) => match.name)).toEqual(['ConfigManager.load'])
+    expect(findSymbolsByName(symbols, 'load').map((match) => match.name)).toEqual(['ConfigManager.load'])
+  })
+
+  test('treats overloads as one symbol', () => {
+    expect(findSymbolsByName(symbols, 'format')).toHaveLength(1)
+  })
+
+  test('resolves to the start of the selection range', async () => {
+    expect(await resolveSymbolPosition(client, 'file:///src/a.ts', 'load')).toEqual({ line: 6, character: 2 })
+  })
+
+  test('lists candidates for ambiguous names', async () => {
+    const error = await resolveSymbolPosition(client, 'file:///src/a.ts', 'get').catch((caught: Error) => caught)
+    expect(String(error)).toContain('ambiguous')
+    expect(String(error)).toContain('ConfigManager.get [Method] 10:2')
+    expect(String(error)).toContain('Cache.get [Method] 16:2')
+  })
+
+  test('suggests similar names when nothing matches', async () => {
+    const error = await resolveSymbolPosition(client, 'file:///src/a.ts', 'config').catch((caught: Error) => caught)
+    expect(String(error)).toContain('not found')
+    expect(String(error)).toContain('ConfigManager [Class] 4:2')
+  })
+})
+
+describe('parsePositionArgs', () => {
+  test('parses file, line, character and trailing arguments', () => {
+    expect(parsePositionArgs(['src/a.ts', '4', '2', 'newName'])).toEqual({
+      filePath: 'src/a.ts',
+      position: { line: 4, character: 2 },
+      rest: ['newName'],
+      base: 0,
+    })
+  })
+
+  test('takes only the file when a symbol is given', () => {
+    expect(parsePositionArgs(['src/a.ts', 'newName'], { symbol: 'load' })).toEqual({
+      filePath: 'src/a.ts',
+      symbol: 'load',
+      rest: ['newName'],
+      base: 0,
+    })
+  })
+
+  test('reads editor-style file:line:col as 1-based', () => {
+    expect(parsePositionArgs(['src/a.ts:42:10', 'newName'])).toEqual({
+      filePath: 'src/a.ts',
+      position: { line: 41, character: 9 },
+      rest: ['newName'],
+      base: 1,
+    })
+    expect(parsePositionArgs(['src/a.ts:42:10'], { 'zero-based': true })).toMatchObject({
+      position: { line: 42, character: 10 },
+      base: 0,
+    })
+  })
+
+  test('reads separate line and character as 1-based with --one-based', () => {
+    expect(parsePositionArgs(['src/a.ts', '1', '1'], { 'one-based': true })).toMatchObject({
+      position: { line: 0, character: 0 },
+      base: 1,
+    })
+    expect(parsePositionArgs(['src/a.ts', '0', '1'], { 'one-based': true })).toBeUndefined()
+  })
+
+  test('rejects missing or non-numeric positions', () => {
+    expect(parsePositionArgs([])).toBeUndefined()
+    expect(parsePositionArgs(['src/a.ts', '4'])).toBeUndefined()
+    expect(parsePositionArgs(['src/a.ts', '4', 'x'])).toBeUndefined()
+  })
+
+  test('rejects conflicting options', () => {
+    expect(parsePositionArgs(['src/a.ts', '4', '2'], { 'one-based': true, 'zero-based': true })).toBeUndefined()
+    expect(parsePositionArgs(['src/a.ts:4:2'], { symbol: 'load' })).toBeUndefined()
+  })
+})
+
+describe('parseFileLocation', () => {
+  test('splits the trailing line and column', () => {
+    expect(parseFileLocation('src/a.ts:42:10')).toEqual({
+      filePath: 'src/a.ts',
+      position: { line: 42, character: 10 },
+    })
+    expect(parseFileLocation('src/a.ts')).toBeUndefined()
+    expect(parseFileLocation('src/a.ts:42')).toBeUndefined()
+  })
+})
+
+describe('withPositionBase', () => {
+  test('converts nested positions to 1-based without modifying the input', () => {
+    const result = [
+      { uri: 'file:///a.ts', range: { start: { line: 0, character: 4 }, end: { line: 2, character: 0 } } },
+    ]
+    expect(withPositionBase(result, 1)).toEqual([
+      { uri: 'file:///a.ts', range: { start: { line: 1, character: 5 }, end: { line: 3, character: 1 } } },
+    ])
+    expect(result[0]!.range.start).toEqual({ line: 0, character: 4 })
+  })
+
+  test('leaves other line fields and 0-based results alone', () => {
+    const result = { line: 'const a = 1', position: { line: 3, character: 1 } }
+    expect(withPositionBase(result, 1)).toEqual({ line: 'const a = 1', position: { line: 4, character: 2 } })
+    expect(withPositionBase(result, 0)).toBe(result)
+  })
+})
+
+describe('toWorkspacePath', () => {
+  test('makes paths relative to the workspace root', () => {
+    expect(toWorkspacePath('/work/app/src/a.ts', '/work/app')).toBe('src/a.ts')
+    expect(toWorkspacePath('/work/lib/b.ts', '/work/app')).toBe('../lib/b.ts')
+  })
+
+  test('shortens node_modules paths to the package', () => {
+    expect(toWorkspacePath('/work/app/node_modules/@types/node/url.d.ts', '/work/app')).toBe('@types/node/url.d.ts')
+    expect(toWorkspacePath('/work/app/node_modules/.pnpm/zod@3.0.0/node_modules/zod/index.d.ts', '/work/app')).toBe(
+      'zod/index.d.ts',
+    )
+  })
+})
+
+describe('withWorkspacePaths', () => {
+  const range = { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } }
+
+  test('converts URIs of locations, links and symbols', () => {
+    const result = [
+      { uri: 'file:///work/app/src/a.ts', range },
+      { targetUri: 'file:///work/app/node_modules/pkg/index.d.ts', targetRange: range, targetSelectionRange: range },
+      { name: 'a', kind: 13, location: { uri: 'file:///work/app/src/a.ts', range } },
+    ]
+    expect(withWorkspacePaths(result, '/work/app')).toEqual([
+      { uri: 'src/a.ts', range },
+      { targetUri: 'pkg/index.d.ts', targetRange: range, targetSelectionRange: range },
+      { name: 'a', kind: 13, location: { uri: 'src/a.ts', range } },
+    ])
+  })
+
+  test('converts URI keys and document changes of workspace edits', () => {
+    const edit: { changes: Record<string, unknown>; documentChanges: unknown[] } = {
+      changes: { 'file:///work/app/src/a.ts': [{ range, newText: 'b' }] },
+      documentChanges: [{ textDocument: { uri: 'file:///work/app/src/b.ts', version: 1 }, edits: [] }],
+    }
+    expect(withWorkspacePaths(edit, '/work/app')).toEqual({
+      changes: { 'src/a.ts': [{ range, newText: 'b' }] },
+      documentChanges: [{ textDocument: { uri: 'src/b.ts', version: 1 }, edits: [] }],
+    })
+  })
+
+  test('leaves other strings alone', () => {
+    expect(withWorkspacePaths({ name: 'file', uri: 'untitled:Untitled-1' }, '/work/app')).toEqual({
+      name: 'file',
+      uri: 'untitled:Untitled-1',
+    })
+  })
+})
+
+describe('getSymbolKindName', () => {
+  test('names known kinds and marks unknown ones', () => {
+    expect(getSymbolKindName(5)).toBe('Class')
+    expect(getSymbolKindName(99)).toBe('Unknown(99)')
+  })
+})
+
+describe('isNodeModulesDeclaration', () => {
+  test('flags declaration files inside node_modules', () => {
+    expect(isNodeModulesDeclaration('/p/node_modules/@types/node/url.d.ts')).toBe(true)
+    expect(isNodeModulesDeclaration('/p/node_modules/pkg/index.d.mts')).toBe(true)
+  })
+
+  test('ignores sources and local declaration files', () => {
+    expect(isNodeModulesDeclaration('/p/node_modules/pkg/index.js')).toBe(false)
+    expect(isNodeModulesDeclaration('/p/src/types.d.ts')).toBe(false)
+  })
+})
+
+describe('readLines', () => {
+  test('reads an inclusive line range', async () => {
+    const lines = await readLines(`${import.meta.dir}/fixtures/sample.ts`, 3, 4)
+    expect(lines).toEqual(['export type Config = {', '  name: string'])
+  })
+
+  test('returns empty list for missing files', async () => {
+    expect(await readLines(`${import.meta.dir}/fixtures/missing.ts`, 0, 10)).toEqual([])
+  })
+})
+
+describe('expandFilePatterns', () => {
+  test('resolves plain paths without checking existence', async () => {
+    const result = await expandFilePatterns(['src/does-not-exist.ts'])
+    expect(result).toEqual([join(process.cwd(), 'src/does-not-exist.ts')])
+  })
+
+  test('expands globs from cwd', async () => {
+    const result = await expandFilePatterns(['src/tests/fixtures/*.ts'])
+    expect(result).toContain(join(import.meta.dir, 'fixtures/sample.ts'))
+  })
+
+  test('deduplicates and sorts results', async () => {
+    const result = await expandFilePatterns(['src/lsp-utils.ts', 'src/lsp-*.ts', 'src/lsp-utils.ts'])
+
+    expect(result).toEqual([...new Set(result)].sort())
+    expect(result.filter((file) => file.endsWith('lsp-utils.ts'))).toHaveLength(1)
+  })
+
+  test('skips node_modules when matching globs', async () => {
+    const result = await expandFilePatterns(['**/typescript/package.json'])
+    expect(result.some((file) => file.includes('/node_modules/'))).toBe(false)
+  })
+
+  test('skips glob matches ignored by git, or build output outside a repository', async () => {
+    const tempDir = await realpath(await mkdtemp(join(tmpdir(), 'expand-patterns-test-')))
+    const cwd = process.cwd()
+    try {
+      await Bun.write(join(tempDir, 'repo/src/index.ts'), '')
+      await Bun.write(join(tempDir, 'repo/generated/api.ts'), '')
+      await Bun.write(join(tempDir, 'repo/.gitignore'), 'generated/\n')
+      Bun.spawnSync(['git', 'init', '-q'], { cwd: join(tempDir, 'repo') })
+      await Bun.write(join(tempDir, 'plain/src/index.ts'), '')
+      await Bun.write(join(tempDir, 'plain/dist/index.js'), '')
+
+      process.chdir(join(tempDir, 'repo'))
+      expect(await expandFilePatterns(['**/*.ts'])).toEqual([join(tempDir, 'repo/src/index.ts')])
+      // Plain paths are kept even when ignored
+      expect(await expandFilePatterns(['generated/api.ts'])).toEqual([join(tempDir, 'repo/generated/api.ts')])
+
+      process.chdir(join(tempDir, 'plain'))
+      expect(await expandFilePatterns(['**/*.{ts,js}'])).toEqual([join(tempDir, 'plain/src/index.ts')])
+    } finally {
+      process.chdir(cwd)
+      await rm(tempDir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test'
+import { getHoverSignature, getModuleExports } from '../module-exports.ts'
+
+const fixtures = `${import.meta.dir}/fixtures`
+
+describe('getModuleExports', () => {
+  test('lists declarations with their kind', () => {
+    const exports = getModuleExports(`${fixtures}/sample.ts`)
+    expect(exports.map(({ name, kind, typeOnly }) => ({ name, kind, typeOnly }))).toEqual([
+      { name: 'Config', kind: 'TypeAlias', typeOnly: true },
+      { name: 'parseConfig', kind: 'Constant', typeOnly: false },
+      { name: 'validateInput', kind: 'Constant', typeOnly: false },
+      { name: 'ConfigManager', kind: 'Class', typeOnly: false },
+    ])
+    expect(exports[0]).toMatchObject({ uri: `file://${fixtures}/sample.ts`, position: { line: 3, character: 12 } })
+  })
+
+  test('lists public members on request', () => {
+    const manager = getModuleExports(`${fixtures}/sample.ts`, { members: true }).find(
+      ({ name }) => name === 'ConfigManager',
+    )
+    expect(manager?.members).toEqual([
+      { name: 'load', position: { line: 19, character: 2 } },
+      { name: 'get', position: { line: 23, character: 2 } },
+    ])
+    expect(getModuleExports(`${fixtures}/sample.ts`)[3]?.members).toBeUndefined()
+  })
+
+  test('resolves aliases, re-export sources and default exports', () => {
+    const exports = getModuleExports(`${fixtures}/reexports.ts`)
+    const byName = Object.fromEntries(exports.map((entry) => [entry.name, entry]))
+
+    expect(Object.keys(byName).sort()).toEqual([
+      'Config',
+      'ConfigManager',
+      'default',
+      'parse',
+      'parseConfig',
+      'validateInput',
+    ])
+    expect(byName.parse).toMatchObject({ local: 'parseConfig', from: './sample.ts', kind: 'Constant' })
+    expect(byName.Config).toMatchObject({ from: './sample.ts', typeOnly: true })
+    expect(byName.ConfigManager).toMatchObject({ from: './sample.ts', uri: `file://${fixtures}/sample.ts` })
+    expect(byName.default).toMatchObject({ local: 'version', kind: 'Constant', uri: `file://${fixtures}/reexports.ts` })
+    expect(byName.default?.from).toBeUndefined()
+  })
+})
+
+describe('getHoverSignature', () => {
+  test('takes the first code block of markdown hovers', () => {
+    const hover = { contents: { kind: 'markdown', value: '\n```typescript\nconst a: number\n```\nThe answer' } }
+    expect(getHoverSignature(hover)).toBe('const a: number')
+  })
+
+  test('takes language-tagged strings and plain text', () => {
+    expect(getHoverSignature({ contents: [{ language: 'typescript', value: 'type A = string' }] })).toBe(
+      'type A = string',
+    )
+    expect(getHoverSignature({ contents: 'plain' })).toBe('plain')
+    expect(getHoverSignature(null)).toBeUndefined()
+  })
+})
@@ -0,0 +1,152 @@
+import { afterAll, afterEach, describe, expect, spyOn, test } from 'bun:test'
+import { formatHover, formatLocations, parseOutputOptions, printResult } from '../output-format.ts'
+
+const sampleUri = `file://${import.meta.dir}/fixtures/sample.ts`
+
+const location = (line: number, character: number) => ({
+  uri: sampleUri,
+  range: { start: { line, character }, end: { line, character: character + 1 } },
+})
+
+describe('parseOutputOptions', () => {
+  test('accepts json, jsonl and text only', () => {
+    expect(parseOutputOptions({ format: 'json' })).toEqual({ format: 'json' })
+    expect(parseOutputOptions({ format: 'jsonl' })).toEqual({ format: 'jsonl' })
+    expect(parseOutputOptions({ format: 'text' })).toEqual({ format: 'text' })
+    expect(parseOutputOptions({ format: 'yaml' })).toHaveProperty('error')
+  })
+
+  test('reads --absolute-uris', () => {
+    expect(parseOutputOptions({ format: 'json', 'absolute-uris': true })).toEqual({
+      format: 'json',
+      absoluteUris: true,
+    })
+  })
+
+  test('parses budgets', () => {
+    expect(parseOutputOptions({ format: 'json', 'max-results': '20', 'max-chars': '4000' })).toEqual({
+      format: 'json',
+      maxResults: 20,
+      maxChars: 4000,
+    })
+    expect(parseOutputOptions({ format: 'json', 'max-results': 'many' })).toEqual({
+      error: '--max-results must be a non-negative number',
+    })
+  })
+})
+
+describe('printResult', () => {
+  const printed: string[] = []
+  const log = spyOn(console, 'log').mockImplementation((text: string) => {
+    printed.push(text)
+  })
+
+  afterEach(() => {
+    printed.length = 0
+  })
+
+  afterAll(() => {
+    log.mockRestore()
+  })
+
+  const references = [
+    { file: 'src/a.ts', line: 1 },
+    { file: 'src/b.ts', line: 2 },
+    { file: 'src/a.ts', line: 3 },
+  ]
+  const renderers = { text: (items: typeof references) => items.map((item) => `${item.file}:${item.line}`).join('\n') }
+
+  test('prints everything without a budget', async () => {
+    await printResult(references, { format: 'json', base: 0 }, renderers)
+    expect(JSON.parse(printed[0]!)).toEqual(references)
+  })
+
+  test('wraps truncated array results with a summary per file', async () => {
+    await printResult(references, { format: 'json', base: 0, maxResults: 1 }, { ...renderers, hint: 'Be specific' })
+    expect(JSON.parse(printed[0]!)).toEqual({
+      results: [references[0]],
+      truncated: { total: 3, shown: 1, counts: { 'src/a.ts': 2, 'src/b.ts': 1 }, hint: 'Be specific' },
+    })
+  })
+
+  test('drops records until the output fits --max-chars', async () => {
+    const many = Array.from({ length: 40 }, (_, index) => ({ file: index % 4 ? 'src/a.ts' : 'src/b.ts', line: index }))
+    await printResult(many, { format: 'text', base: 0, maxChars: 250 }, renderers)
+    const [text] = printed
+    expect(text!.length).toBeLessThanOrEqual(250)
+    expect(text).toStartWith('src/b.ts:0\nsrc/a.ts:1\n')
+    expect(text).toMatch(/Showing \d+ of 40 results\. All results by group:\n {2}src\/a\.ts: 30\n {2}src\/b\.ts: 10/)
+  })
+
+  test('prints workspace-relative paths unless --absolute-uris', async () => {
+    const locations = [location(3, 12)]
+    await printResult(locations, { format: 'jsonl', base: 0 }, { text: () => '' })
+    await printResult(locations, { format: 'jsonl', base: 0, absoluteUris: true }, { text: () => '' })
+    expect(JSON.parse(printed[0]!).uri).toBe('src/tests/fixtures/sample.ts')
+    expect(JSON.parse(printed[1]!).uri).toBe(sampleUri)
+  })
+
+  test('truncates non-array results through their records', async () => {
+    const result = { files: 2, diagnostics: references }
+    await printResult(
+      result,
+      { format: 'jsonl', base: 0, maxResults: 2 },
+      {
+        ...renderers,
+        text: () => '',
+        records: (output) => output.diagnostics,
+        withRecords: (output, diagnostics) => ({ ...output, diagnostics: diagnostics as typeof references }),
+      },
+    )
+    const lines = printed[0]!.split('\n').map((line) => JSON.parse(line))
+    expect(lines).toHaveLength(3)
+    expect(lines[2].truncated).toMatchObject({ total: 3, shown: 2 })
+  })
+
+  test('cuts results without records to --max-chars', async () => {
+    await printResult(
+      { contents: 'x'.repeat(100) },
+      { format: 'text', base: 0, maxChars: 10 },
+      { text: (hover) => hover.contents },
+    )
+    expect(printed[0]).toStartWith('xxxxxxxxxx\n... truncated to 10 of 100 characters')
+  })
+})
+
+describe('formatHover', () => {
+  test('keeps markdown contents as they are', () => {
+    const hover = { contents: { kind: 'markdown', value: '\n```typescript\nclass Square\n```\n' } }
+    expect(formatHover(hover)).toBe('```typescript\nclass Square\n```')
+  })
+
+  test('puts language-tagged strings in code blocks', () => {
+    const hover = { contents: [{ language: 'typescript', value: 'const a: number' }, 'The answer'] }
+    expect(formatHover(hover)).toBe('```typescript\nconst a: number\n```\n\nThe answer')
+  })
+
+  test('reports a missing hover', () => {
+    expect(formatHover(null)).toBe('No hover information')
+  })
+})
+
+describe('formatLocations', () => {
+  test('groups by file, sorts by position and shows the source line', async () => {
+    const text = await formatLocations([location(8, 13), location(3, 12)], 0)
+    expect(text).toBe(
+      [
+        'src/tests/fixtures/sample.ts (2)',
+        '  3:12  export type Config = {',
+        '  8:13  export const parseConfig = (input: string): Config => {',
+      ].join('\n'),
+    )
+  })
+
+  test('reads source lines of 1-based locations', async () => {
+    const text = await formatLocations([location(4, 13)], 1)
+    expect(text).toContain('4:13  export type Config = {')
+  })
+
+  test('reports empty results', async () => {
+    expect(await formatLocations([], 0)).toBe('No locations')
+  })
+})
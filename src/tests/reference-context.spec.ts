@@ -0,0 +1,119 @@
+import { describe, expect, test } from 'bun:test'
+import ts from 'typescript'
+import { offsetToPosition } from '../lsp-utils.ts'
+import {
+  classifyReference,
+  formatReferences,
+  getContextLines,
+  parseContextOption,
+  type ReferenceWithContext,
+} from '../reference-context.ts'
+
+const source = [
+  "import { Config, parse } from './config.ts'",
+  "export { Config as Settings } from './config.ts'",
+  'let count = 0',
+  'class Loader extends Base implements Config {',
+  '  load(input: string): Config {',
+  '    count += 1',
+  '    this.count++',
+  '    return parse(input)',
+  '  }',
+  '}',
+  'type Alias = Config',
+].join('\n')
+
+const sourceFile = ts.createSourceFile('/src/loader.ts', source, ts.ScriptTarget.Latest, true)
+
+/**
+ * Classify the `occurrence`-th occurrence of `name` in the source
+ */
+const classify = (name: string, occurrence = 0) => {
+  let offset = -1
+  for (let index = 0; index <= occurrence; index++) {
+    offset = source.indexOf(name, offset + 1)
+  }
+  return classifyReference(sourceFile, offsetToPosition(source, offset))
+}
+
+describe('parseContextOption', () => {
+  test('parses a number of lines', () => {
+    expect(parseContextOption(undefined)).toBeUndefined()
+    expect(parseContextOption('0')).toBe(0)
+    expect(parseContextOption('3')).toBe(3)
+    expect(parseContextOption('-1')).toEqual({ error: '--context must be a non-negative number of lines' })
+  })
+})
+
+describe('classifyReference', () => {
+  test('classifies imports and re-exports', () => {
+    expect(classify('Config')).toBe('import')
+    expect(classify('parse')).toBe('import')
+    expect(classify('Config', 1)).toBe('import')
+  })
+
+  test('classifies type positions and type declarations', () => {
+    expect(classify('Config', 2)).toBe('type')
+    expect(classify('Config', 3)).toBe('type')
+    expect(classify('Alias')).toBe('type')
+  })
+
+  test('treats class extends as a value read', () => {
+    expect(classify('Base')).toBe('read')
+  })
+
+  test('classifies declarations, assignments and increments as writes', () => {
+    expect(classify('count')).toBe('write')
+    expect(classify('count', 1)).toBe('write')
+    expect(classify('count', 2)).toBe('write')
+    expect(classify('load')).toBe('write')
+  })
+
+  test('classifies other uses as reads', () => {
+    expect(classify('parse', 1)).toBe('read')
+    expect(classify('input', 1)).toBe('read')
+  })
+
+  test('classifies a declaration by its name', () => {
+    expect(classifyReference(sourceFile, { line: 3, character: 0 })).toBe('write')
+    expect(classifyReference(sourceFile, { line: 10, character: 0 })).toBe('type')
+  })
+})
+
+describe('getContextLines', () => {
+  const lines = source.split('\n')
+
+  test('takes surrounding lines within the file', () => {
+    expect(getContextLines(lines, 0, 1, 0)).toEqual([
+      { line: 0, text: lines[0]! },
+      { line: 1, text: lines[1]! },
+    ])
+    expect(getContextLines(lines, 10, 0, 1)).toEqual([{ line: 11, text: 'type Alias = Config' }])
+  })
+})
+
+describe('formatReferences', () => {
+  test('sorts references and marks the referenced line', () => {
+    const reference = (line: number, usage: ReferenceWithContext['usage']): ReferenceWithContext => ({
+      uri: `file://${process.cwd()}/src/loader.ts`,
+      range: { start: { line, character: 4 }, end: { line, character: 9 } },
+      usage,
+      enclosing: { name: 'Loader.load', kind: 'Method' },
+      context: getContextLines(source.split('\n'), line, 1, 0),
+    })
+
+    expect(formatReferences([reference(6, 'write'), reference(5, 'write')])).toBe(
+      [
+        'src/loader.ts (2)',
+        '  5:4  write in Loader.load [Method]',
+        '    4 |   load(input: string): Config {',
+        '  > 5 |     count += 1',
+        '    6 |     this.count++',
+        '  6:4  write in Loader.load [Method]',
+        '    5 |     count += 1',
+        '  > 6 |     this.count++',
+        '    7 |     return parse(input)',
+      ].join('\n'),
+    )
+  })
+})
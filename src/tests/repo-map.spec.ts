@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test'
+import { estimateTokens, formatRepoMap, rankExports, toSignatureLine } from '../repo-map.ts'
+
+describe('toSignatureLine', () => {
+  test('collapses whitespace and cuts long signatures', () => {
+    expect(toSignatureLine('type Config = {\n  name: string\n}')).toBe('type Config = { name: string }')
+    const line = toSignatureLine(`const long: ${'x'.repeat(300)}`)
+    expect(line).toHaveLength(160)
+    expect(line).toEndWith('...')
+  })
+})
+
+describe('estimateTokens', () => {
+  test('counts four characters per token', () => {
+    expect(estimateTokens('')).toBe(0)
+    expect(estimateTokens('abcde')).toBe(2)
+  })
+})
+
+describe('rankExports', () => {
+  test('puts the most referenced files first, then their most referenced exports', () => {
+    const ranked = rankExports([
+      { file: 'src/b.ts', name: 'b', references: 1, fileReferences: 1 },
+      { file: 'src/a.ts', name: 'rare', references: 1, fileReferences: 5 },
+      { file: 'src/a.ts', name: 'common', references: 4, fileReferences: 5 },
+      { file: 'src/c.ts', name: 'c', references: 1, fileReferences: 1 },
+    ])
+    expect(ranked.map(({ name }) => name)).toEqual(['common', 'rare', 'b', 'c'])
+  })
+})
+
+describe('formatRepoMap', () => {
+  test('groups files by directory and notes what was left out', () => {
+    const map = {
+      files: 3,
+      tokens: 30,
+      maxTokens: 30,
+      directories: [
+        {
+          directory: 'src',
+          files: [
+            {
+              file: 'src/config.ts',
+              references: 5,
+              symbols: [
+                {
+                  name: 'parseConfig',
+                  kind: 'Constant',
+                  signature: 'const parseConfig: (input: string) => Config',
+                  references: 4,
+                },
+                { name: 'default', kind: 'Function', signature: 'function main(): void', references: 1 },
+                { name: 'Loader', kind: 'Class', references: 0 },
+              ],
+            },
+          ],
+        },
+      ],
+      omitted: { symbols: 4, files: 2 },
+    }
+    expect(formatRepoMap(map)).toBe(
+      [
+        'src/',
+        '  config.ts (5 ref(s))',
+        '    const parseConfig: (input: string) => Config',
+        '    export default function main(): void',
+        '    Loader [Class]',
+        '... 4 more export(s) in 2 file(s) beyond 30 tokens (raise --max-tokens)',
+      ].join('\n'),
+    )
+  })
+})
@@ -0,0 +1,183 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test'
+import * as fs from 'node:fs/promises'
+import { chmod, lstat, mkdtemp, readdir, readlink, rm, stat, symlink } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  applyFileChanges,
+  applyTextEdits,
+  collectTextEdits,
+  createUnifiedDiff,
+  mergeWorkspaceEdits,
+  planWorkspaceEdit,
+} from '../workspace-edit.ts'
+
+const range = (line: number, start: number, end: number) => ({
+  start: { line, character: start },
+  end: { line, character: end },
+})
+
+describe('collectTextEdits', () => {
+  test('merges changes and documentChanges by path', () => {
+    const edits = collectTextEdits({
+      changes: { 'file:///src/a.ts': [{ range: range(0, 0, 1), newText: 'x' }] },
+      documentChanges: [
+        { textDocument: { uri: 'file:///src/a.ts', version: 1 }, edits: [{ range: range(1, 0, 1), newText: 'y' }] },
+        { textDocument: { uri: 'file:///src/b.ts', version: 1 }, edits: [{ range: range(0, 0, 1), newText: 'z' }] },
+      ],
+    })
+
+    expect([...edits.keys()]).toEqual(['/src/a.ts', '/src/b.ts'])
+    expect(edits.get('/src/a.ts')?.map((edit) => edit.newText)).toEqual(['x', 'y'])
+  })
+
+  test('rejects file operations', () => {
+    expect(() => collectTextEdits({ documentChanges: [{ kind: 'rename' }] })).toThrow('not supported')
+  })
+})
+
+describe('mergeWorkspaceEdits', () => {
+  test('keeps the edits of every workspace edit', () => {
+    const merged = mergeWorkspaceEdits([
+      { changes: { 'file:///src/a.ts': [{ range: range(0, 0, 1), newText: 'x' }] } },
+      {
+        documentChanges: [
+          { textDocument: { uri: 'file:///src/a.ts', version: 1 }, edits: [{ range: range(1, 0, 1), newText: 'y' }] },
+        ],
+      },
+    ])
+
+    expect(
+      collectTextEdits(merged)
+        .get('/src/a.ts')
+        ?.map((edit) => edit.newText),
+    ).toEqual(['x', 'y'])
+  })
+})
+
+describe('applyTextEdits', () => {
+  test('applies edits regardless of their order', () => {
+    const text = 'const size = 2\nuse(size)\n'
+    const result = applyTextEdits(text, [
+      { range: range(1, 4, 8), newText: 'width' },
+      { range: range(0, 6, 10), newText: 'width' },
+    ])
+
+    expect(result).toBe('const width = 2\nuse(width)\n')
+  })
+
+  test('keeps the order of inserts at the same position', () => {
+    const result = applyTextEdits('b', [
+      { range: range(0, 0, 0), newText: '1' },
+      { range: range(0, 0, 0), newText: '2' },
+    ])
+
+    expect(result).toBe('12b')
+  })
+})
+
+describe('createUnifiedDiff', () => {
+  test('returns an empty string for equal contents', () => {
+    expect(createUnifiedDiff(join(process.cwd(), 'a.ts'), 'x\n', 'x\n')).toBe('')
+  })
+
+  test('renders hunks with context and line numbers', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l'].join('\n')
+    const after = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm'].join('\n')
+
+    expect(createUnifiedDiff(join(process.cwd(), 'src/a.ts'), before, after)).toBe(
+      [
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1,5 +1,5 @@',
+        ' a',
+        '-b',
+        '+B',
+        ' c',
+        ' d',
+        ' e',
+        '@@ -10,3 +10,4 @@',
+        ' j',
+        ' k',
+        ' l',
+        '+m',
+      ].join('\n'),
+    )
+  })
+
+  test('merges nearby changes into one hunk', () => {
+    const diff = createUnifiedDiff(join(process.cwd(), 'a.ts'), 'a\nb\nc\nd\ne', 'A\nb\nc\nd\nE')
+
+    expect(diff.split('\n').filter((line) => line.startsWith('@@'))).toEqual(['@@ -1,5 +1,5 @@'])
+  })
+})
+
+describe('applyFileChanges', () => {
+  let tempDir: string
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'workspace-edit-test-'))
+  })
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  const plan = async (name: string, text: string) => {
+    const path = join(tempDir, name)
+    await Bun.write(path, text)
+    return planWorkspaceEdit({ changes: { [`file://${path}`]: [{ range: range(0, 0, 3), newText: 'new' }] } })
+  }
+
+  test('writes all planned files', async () => {
+    const changes = [...(await plan('a.ts', 'old a')), ...(await plan('b.ts', 'old b'))]
+
+    await applyFileChanges(changes)
+
+    expect(await Bun.file(join(tempDir, 'a.ts')).text()).toBe('new a')
+    expect(await Bun.file(join(tempDir, 'b.ts')).text()).toBe('new b')
+    expect((await readdir(tempDir)).sort()).toEqual(['a.ts', 'b.ts'])
+  })
+
+  test('writes nothing when a file changed after planning', async () => {
+    const changes = [...(await plan('c.ts', 'old c')), ...(await plan('d.ts', 'old d'))]
+    await Bun.write(join(tempDir, 'd.ts'), 'edited d')
+
+    await expect(applyFileChanges(changes)).rejects.toThrow('File changed since the edit was computed')
+    expect(await Bun.file(join(tempDir, 'c.ts')).text()).toBe('old c')
+    expect(await Bun.file(join(tempDir, 'd.ts')).text()).toBe('edited d')
+  })
+
+  test('keeps file modes and symlinks', async () => {
+    const [change] = await plan('e.ts', 'old e')
+    await chmod(join(tempDir, 'e.ts'), 0o755)
+    await symlink(join(tempDir, 'e.ts'), join(tempDir, 'link.ts'))
+
+    await applyFileChanges([{ ...change!, path: join(tempDir, 'link.ts') }])
+
+    expect((await stat(join(tempDir, 'e.ts'))).mode & 0o777).toBe(0o755)
+    expect((await lstat(join(tempDir, 'link.ts'))).isSymbolicLink()).toBe(true)
+    expect(await readlink(join(tempDir, 'link.ts'))).toBe(join(tempDir, 'e.ts'))
+    expect(await Bun.file(join(tempDir, 'e.ts')).text()).toBe('new e')
+  })
+
+  test('restores replaced files when a rename fails', async () => {
+    const changes = [...(await plan('f.ts', 'old f')), ...(await plan('g.ts', 'old g'))]
+    const files = await readdir(tempDir)
+    const { rename: renameFile } = fs
+    const rename = spyOn(fs, 'rename')
+    rename.mockImplementationOnce(renameFile).mockImplementationOnce(async () => {
+      throw new Error('rename failed')
+    })
+
+    try {
+      await expect(applyFileChanges(changes)).rejects.toThrow('rename failed')
+      expect(rename).toHaveBeenCalledTimes(2)
+    } finally {
+      rename.mockRestore()
+    }
+    expect(await Bun.file(join(tempDir, 'f.ts')).text()).toBe('old f')
+    expect(await Bun.file(join(tempDir, 'g.ts')).text()).toBe('old g')
+    expect((await readdir(tempDir)).sort()).toEqual(files.sort())
+  })
+})
@@ -0,0 +1,302 @@
+/**
+ * Preview and apply LSP `WorkspaceEdit`s
+ *
+ * @remarks
+ * Edits are resolved into per-file before/after contents, which can be shown as a
+ * unified diff or written to disk. Writing verifies that no file changed since the
+ * edit was computed and replaces files via rename, so a conflicting change aborts
+ * before anything is written and a failed rename rolls back the files already replaced.
+ *
+ * @internal
+ */
+
+import { chmod, realpath, rename, stat, unlink } from 'node:fs/promises'
+import { dirname, relative } from 'node:path'
+import { positionToOffset, type Range, uriToPath } from './lsp-utils.ts'
+
+export type TextEdit = { range: Range; newText: string }
+
+type TextDocumentEdit = {
+  textDocument: { uri: string; version?: number | null }
+  edits: TextEdit[]
+}
+
+type ResourceOperation = { kind: 'create' | 'rename' | 'delete' }
+
+export type WorkspaceEdit = {
+  changes?: Record<string, TextEdit[]>
+  documentChanges?: Array<TextDocumentEdit | ResourceOperation>
+}
+
+/**
+ * Planned change to a single file
+ */
+export type FileChange = {
+  path: string
+  before: string
+  after: string
+  edits: number
+}
+
+type DiffLine = { type: ' ' | '-' | '+'; text: string }
+
+/** Lines of unchanged context around each diff hunk */
+const DIFF_CONTEXT = 3
+
+/** Above this edit distance the diff degrades to replacing the changed block */
+const MAX_DIFF_DISTANCE = 2000
+
+/**
+ * Group the text edits of a workspace edit by file path
+ *
+ * @throws When the edit contains file create/rename/delete operations
+ */
+export const collectTextEdits = (edit: WorkspaceEdit): Map<string, TextEdit[]> => {
+  const byPath = new Map<string, TextEdit[]>()
+  const add = (uri: string, edits: TextEdit[]) => {
+    const path = uriToPath(uri)
+    byPath.set(path, [...(byPath.get(path) ?? []), ...edits])
+  }
+
+  for (const [uri, edits] of Object.entries(edit.changes ?? {})) {
+    add(uri, edits)
+  }
+  for (const change of edit.documentChanges ?? []) {
+    if ('kind' in change) {
+      throw new Error(`Workspace edits with file ${change.kind} operations are not supported`)
+    }
+    add(change.textDocument.uri, change.edits)
+  }
+
+  return byPath
+}
+
+/**
+ * Combine several workspace edits, e.g. from consecutive `workspace/applyEdit` requests
+ */
+export const mergeWorkspaceEdits = (edits: WorkspaceEdit[]): WorkspaceEdit => ({
+  documentChanges: edits.flatMap((edit) => [
+    ...Object.entries(edit.changes ?? {}).map(([uri, textEdits]) => ({ textDocument: { uri }, edits: textEdits })),
+    ...(edit.documentChanges ?? []),
+  ]),
+})
+
+/**
+ * Apply text edits to a document
+ *
+ * @remarks
+ * Edits are applied from the end of the document backwards so earlier offsets stay valid.
+ * Edits at the same position keep their original order.
+ */
+export const applyTextEdits = (text: string, edits: TextEdit[]): string => {
+  const resolved = edits
+    .map((edit, index) => ({
+      start: positionToOffset(text, edit.range.start),
+      end: positionToOffset(text, edit.range.end),
+      newText: edit.newText,
+      index,
+    }))
+    .sort((a, b) => b.start - a.start || b.index - a.index)
+
+  let result = text
+  for (const edit of resolved) {
+    result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end)
+  }
+  return result
+}
+
+/**
+ * Resolve a workspace edit against the current file contents
+ */
+export const planWorkspaceEdit = async (edit: WorkspaceEdit): Promise<FileChange[]> => {
+  const changes: FileChange[] = []
+
+  for (const [path, edits] of collectTextEdits(edit)) {
+    const file = Bun.file(path)
+    if (!(await file.exists())) {
+      throw new Error(`File not found: ${path}`)
+    }
+    const before = await file.text()
+    changes.push({ path, before, after: applyTextEdits(before, edits), edits: edits.length })
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/**
+ * Write planned changes to disk
+ *
+ * @remarks
+ * Every file is checked against its `before` contents first; if any differs, nothing
+ * is written. New contents go to temporary files next to the originals, with the
+ * originals' mode, and are then renamed into place. Symlinks are followed, so the link
+ * stays and its target is replaced. When a rename fails, the files already replaced
+ * get their `before` contents back and the remaining temporary files are removed.
+ *
+ * @throws When a file changed after the edit was computed, or could not be replaced
+ */
+export const applyFileChanges = async (changes: FileChange[]): Promise<void> => {
+  for (const change of changes) {
+    const current = await Bun.file(change.path).text()
+    if (current !== change.before) {
+      throw new Error(`File changed since the edit was computed: ${change.path}`)
+    }
+  }
+
+  const staged: Array<{ change: FileChange; target: string; temp: string }> = []
+  const removeTemps = (entries: typeof staged) => Promise.all(entries.map(({ temp }) => unlink(temp).catch(() => {})))
+
+  try {
+    for (const change of changes) {
+      const target = await realpath(change.path)
+      const temp = `${dirname(target)}/.${crypto.randomUUID()}.tmp`
+      staged.push({ change, target, temp })
+      await Bun.write(temp, change.after)
+      await chmod(temp, (await stat(target)).mode & 0o7777)
+    }
+  } catch (error) {
+    await removeTemps(staged)
+    throw error
+  }
+
+  let replaced = 0
+  try {
+    for (const { target, temp } of staged) {
+      await rename(temp, target)
+      replaced += 1
+    }
+  } catch (error) {
+    await removeTemps(staged.slice(replaced))
+    const restored = await Promise.allSettled(
+      staged.slice(0, replaced).map(({ change, target }) => Bun.write(target, change.before)),
+    )
+    const lost = staged.filter((_, index) => restored[index]?.status === 'rejected').map(({ change }) => change.path)
+    if (lost.length) {
+      throw new Error(`${error instanceof Error ? error.message : error}; could not restore: ${lost.join(', ')}`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Line diff using Myers' algorithm
+ */
+const diffLines = (a: string[], b: string[]): DiffLine[] => {
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  // v[k] holds the furthest x on diagonal k; stored with offset `max + 1`
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  // Snapshot of v[-d-1..d+1] before each step, for backtracking
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_DIFF_DISTANCE) {
+      return [...a.map((text) => ({ type: '-' as const, text })), ...b.map((text) => ({ type: '+' as const, text }))]
+    }
+
+    trace.push(v.slice(offset - d - 1, offset + d + 2))
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!) ? v[offset + k + 1]! : v[offset + k - 1]! + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x += 1
+        y += 1
+      }
+      v[offset + k] = x
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace)
+      }
+    }
+  }
+
+  return []
+}
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[]): DiffLine[] => {
+  const result: DiffLine[] = []
+  let x = a.length
+  let y = b.length
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d]!
+    const at = (k: number) => snapshot[k + d + 1]!
+    const k = x - y
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const prevX = d === 0 ? 0 : at(prevK)
+    const prevY = d === 0 ? 0 : prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: ' ', text: a[x - 1]! })
+      x -= 1
+      y -= 1
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({ type: '+', text: b[y - 1]! })
+      } else {
+        result.push({ type: '-', text: a[x - 1]! })
+      }
+    }
+
+    x = prevX
+    y = prevY
+  }
+
+  return result.reverse()
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ *
+ * @returns The diff, or an empty string when the contents are equal
+ */
+export const createUnifiedDiff = (path: string, before: string, after: string): string => {
+  if (before === after) return ''
+
+  const lines = diffLines(before.split('\n'), after.split('\n'))
+
+  // Line numbers (1-based) of each diff line in the old and new file
+  const positions: Array<{ oldLine: number; newLine: number }> = []
+  let oldLine = 1
+  let newLine = 1
+  for (const line of lines) {
+    positions.push({ oldLine, newLine })
+    if (line.type !== '+') oldLine += 1
+    if (line.type !== '-') newLine += 1
+  }
+
+  const changed = lines.flatMap((line, index) => (line.type === ' ' ? [] : [index]))
+  const hunks: Array<{ start: number; end: number }> = []
+  for (const index of changed) {
+    const start = Math.max(0, index - DIFF_CONTEXT)
+    const end = Math.min(lines.length - 1, index + DIFF_CONTEXT)
+    const last = hunks[hunks.length - 1]
+    if (last && start <= last.end + 1) {
+      last.end = end
+    } else {
+      hunks.push({ start, end })
+    }
+  }
+
+  const name = relative(process.cwd(), path)
+  const output = [`--- a/${name}`, `+++ b/${name}`]
+
+  for (const { start, end } of hunks) {
+    const hunk = lines.slice(start, end + 1)
+    const oldCount = hunk.filter((line) => line.type !== '+').length
+    const newCount = hunk.filter((line) => line.type !== '-').length
+    const { oldLine: oldStart, newLine: newStart } = positions[start]!
+    output.push(
+      `@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@`,
+    )
+    output.push(...hunk.map((line) => `${line.type}${line.text}`))
+  }
+
+  return output.join('\n')
+}